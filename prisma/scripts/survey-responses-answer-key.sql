@@ -0,0 +1,48 @@
+-- Adds survey_responses.answer_key and its unique key to a database created
+-- before it. Run once, before starting this version:
+--
+--   npx prisma db execute --schema prisma/schema.prisma --file prisma/scripts/survey-responses-answer-key.sql
+--
+-- Safe to run again: every step skips what is already done.
+
+BEGIN;
+
+-- Keep writers out until the unique key is in place
+LOCK TABLE survey_responses IN SHARE ROW EXCLUSIVE MODE;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS answer_key TEXT NOT NULL DEFAULT '';
+
+-- Backfill the key the runner writes: the sub-question of a MATRIX answer
+-- (saved as "<sub-question>: <answer>"), else the selected option, else ''
+UPDATE survey_responses r
+SET answer_key = sub.title
+FROM "Question" q,
+  LATERAL (
+    SELECT s AS title
+    FROM unnest(q.sub_questions) s
+    WHERE left(r.answer, length(s) + 2) = s || ': '
+    ORDER BY length(s) DESC
+    LIMIT 1
+  ) sub
+WHERE q.id = r.question_id
+  AND q.question_type = 'MATRIX'
+  AND r.answer_key = '';
+
+UPDATE survey_responses
+SET answer_key = option_id::text
+WHERE option_id IS NOT NULL
+  AND answer_key = '';
+
+-- Drop duplicates left by concurrent saves, keeping the latest row of each key
+DELETE FROM survey_responses r
+USING survey_responses newer
+WHERE newer.simulation_id = r.simulation_id
+  AND newer.persona_id = r.persona_id
+  AND newer.question_id = r.question_id
+  AND newer.answer_key = r.answer_key
+  AND (newer.updated_at, newer.id) > (r.updated_at, r.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS survey_responses_simulation_id_persona_id_question_id_answer_key_key
+  ON survey_responses (simulation_id, persona_id, question_id, answer_key);
+
+COMMIT;
@@ -0,0 +1,350 @@
+import { AppConfig, loadConfig } from './config';
+import { createContainer } from './container';
+import { RecoveryService } from './services/recovery.service';
+import { CronService } from './services/cron.service';
+import { LeaderElectionService } from './services/leader-election.service';
+import { DatabaseService } from './services/database.service';
+import { LoggerService } from './services/logger.service';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  list simulations [--status S] [--limit N]  List simulations, most recently updated first
+  list jobs [--status S] [--limit N]         List queue jobs in claim order
+  show <simulationId>                        Show progress, recovery log and status transitions
+  retry <simulationId>                       Requeue a FAILED simulation with fresh counters
+  cancel <simulationId>                      Cancel a PENDING or RUNNING simulation
+  requeue <simulationId>                     Put a RUNNING or FAILED simulation back in the queue
+  force-complete <simulationId>              Mark a simulation COMPLETED with its current responses
+  purge <simulationId> --yes                 Delete all responses of a (not RUNNING) simulation
+  run <task> [--dry-run]                     Run a cron task once (recovery, cleanup, health,
+                                             failed-recovery, stuck-recovery, queue-positions);
+                                             --dry-run only reports what it would do
+
+Options:
+  --json                                     Print JSON instead of text`;
+
+const BOOLEAN_FLAGS = ['json', 'yes', 'dry-run', 'help'];
+
+const COMMANDS = ['list', 'show', 'retry', 'cancel', 'requeue', 'force-complete', 'purge', 'run'];
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+interface CommandOutput {
+  data: unknown;
+  text: string;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split('=', 2);
+    if (inline !== undefined) {
+      flags.set(name, inline);
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--') && !BOOLEAN_FLAGS.includes(name)) {
+      flags.set(name, argv[++i]);
+    } else {
+      flags.set(name, true);
+    }
+  }
+
+  return { positional, flags };
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  if (rows.length === 0) {
+    return '(none)';
+  }
+
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(headers), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+function formatDate(date: Date | null): string {
+  return date ? new Date(date).toISOString() : '-';
+}
+
+class OperatorCli {
+  private logger: LoggerService;
+  private databaseService: DatabaseService;
+  private recoveryService: RecoveryService;
+  private leaderElection: LeaderElectionService;
+  private cronService: CronService;
+  private actor: string;
+
+  constructor(config: AppConfig) {
+    this.logger = new LoggerService(config.logging, { stderr: true });
+    const container = createContainer(config, this.logger);
+    this.databaseService = container.database;
+    this.recoveryService = container.recoveryService;
+    this.leaderElection = container.leaderElection;
+    this.cronService = container.cronService;
+    this.actor = `cli:${process.env.USER || process.env.USERNAME || 'unknown'}`;
+  }
+
+  async run(argv: string[]): Promise<number> {
+    const args = parseArgs(argv);
+    const json = args.flags.has('json');
+
+    if (args.positional.length === 0 || args.flags.has('help')) {
+      console.log(USAGE);
+      return args.positional.length === 0 && !args.flags.has('help') ? 1 : 0;
+    }
+
+    try {
+      if (!COMMANDS.includes(args.positional[0])) {
+        throw new UsageError(`Unknown command: ${args.positional[0]}`);
+      }
+      // Bad flags are usage errors even when the database is unreachable
+      this.positiveInt(args, 'limit');
+
+      await this.databaseService.connect();
+      const output = await this.dispatch(args);
+      console.log(json ? JSON.stringify(output.data, null, 2) : output.text);
+      return 0;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (json) {
+        console.log(JSON.stringify({ error: message }, null, 2));
+      } else {
+        console.error(`Error: ${message}`);
+        if (error instanceof UsageError) {
+          console.error(`\n${USAGE}`);
+        }
+      }
+      return 1;
+    } finally {
+      await this.leaderElection.stop();
+      await this.databaseService.disconnect().catch(() => undefined);
+    }
+  }
+
+  private async dispatch(args: ParsedArgs): Promise<CommandOutput> {
+    const [command, target] = args.positional;
+
+    switch (command) {
+      case 'list':
+        return this.list(target, args);
+      case 'show':
+        return this.show(this.requireTarget(target));
+      case 'retry':
+        await this.recoveryService.retrySimulation(this.requireTarget(target), this.actor);
+        return this.done(target, 'requeued with fresh counters');
+      case 'cancel':
+        await this.recoveryService.cancelSimulation(this.requireTarget(target), this.actor);
+        return this.done(target, 'cancelled');
+      case 'requeue':
+        await this.recoveryService.requeueSimulation(this.requireTarget(target), this.actor);
+        return this.done(target, 'requeued');
+      case 'force-complete':
+        await this.recoveryService.forceCompleteSimulation(this.requireTarget(target), this.actor);
+        return this.done(target, 'force-completed');
+      case 'purge':
+        return this.purge(this.requireTarget(target), args);
+      case 'run':
+        return this.runTask(target, args.flags.has('dry-run'));
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  }
+
+  private async list(kind: string | undefined, args: ParsedArgs): Promise<CommandOutput> {
+    const status = args.flags.get('status');
+    const options = {
+      status: typeof status === 'string' ? status.toUpperCase() : undefined,
+      limit: this.positiveInt(args, 'limit'),
+    };
+
+    if (kind === 'simulations') {
+      const simulations = await this.recoveryService.listSimulations(options);
+      return {
+        data: simulations,
+        text: formatTable(
+          ['SIMULATION', 'SURVEY', 'STATUS', 'RECOVERY', 'PROGRESS', 'JOB', 'UPDATED'],
+          simulations.map((simulation) => [
+            simulation.simulationId,
+            String(simulation.surveyId),
+            simulation.status,
+            simulation.recoveryStatus,
+            `${simulation.progressPercentage}%`,
+            simulation.queueJobId ?? '-',
+            formatDate(simulation.updatedAt),
+          ]),
+        ),
+      };
+    }
+
+    if (kind === 'jobs') {
+      const jobs = await this.recoveryService.listQueueJobs(options);
+      return {
+        data: jobs,
+        text: formatTable(
+          ['JOB', 'SURVEY', 'STATUS', 'PRIORITY', 'PROGRESS', 'RETRIES', 'WORKER', 'CREATED'],
+          jobs.map((job) => [
+            job.jobId,
+            String(job.surveyId),
+            job.status,
+            String(job.priority),
+            `${job.progressPercentage}%`,
+            `${job.retryCount}/${job.maxRetries}`,
+            job.workerId ?? '-',
+            formatDate(job.createdAt),
+          ]),
+        ),
+      };
+    }
+
+    throw new UsageError('list expects "simulations" or "jobs"');
+  }
+
+  private async show(simulationId: string): Promise<CommandOutput> {
+    const progress = await this.recoveryService.getSimulationProgress(simulationId);
+    const history = await this.recoveryService.getSimulationHistory(simulationId);
+
+    const lines = [
+      `Simulation ${progress.simulationId} (survey ${progress.surveyId})`,
+      `  Status:       ${progress.status} (recovery: ${progress.recoveryStatus}, attempts: ${progress.recoveryAttempts})`,
+      `  Progress:     ${progress.progressPercentage}% — ${progress.personas.processed}/${progress.personas.total} personas, ${progress.personas.remaining} remaining`,
+      `  Requests:     ${progress.successfulRequests} ok, ${progress.failedRequests} failed`,
+      `  ETA:          ${formatDate(progress.estimatedCompletion)}`,
+      `  Updated:      ${formatDate(progress.updatedAt)}`,
+      `  Template:     ${progress.promptTemplate ?? '-'}`,
+    ];
+    if (progress.errorMessage) {
+      lines.push(`  Error:        ${progress.errorMessage}`);
+    }
+    if (progress.queueJob) {
+      const job = progress.queueJob;
+      lines.push(
+        `  Queue job:    ${job.jobId} ${job.status}, retries ${job.retryCount}/${job.maxRetries}, worker ${job.workerId ?? '-'}, lease until ${formatDate(job.leaseExpiresAt)}`,
+      );
+      if (job.billing) {
+        lines.push(
+          `  Billing:      ${job.billing.charged} charged for ${job.billing.personasCharged} personas, ${job.billing.reserved} reserved (${job.billing.status})`,
+        );
+      }
+      if (job.tokenUsage) {
+        const usage = job.tokenUsage;
+        lines.push(
+          `  Tokens:       ${usage.totalTokens} (${usage.promptTokens} prompt, ${usage.completionTokens} completion) in ${usage.requests} requests to ${usage.provider}/${usage.model}`,
+        );
+      }
+    }
+
+    lines.push('', 'Recovery log:', formatTable(
+      ['WHEN', 'ATTEMPT', 'STATUS', 'PROCESSED', 'REMAINING', 'MESSAGE'],
+      history.recoveryLogs.map((log) => [
+        formatDate(log.createdAt),
+        String(log.attempt),
+        log.status,
+        String(log.processedPersonas),
+        String(log.remainingPersonas),
+        log.message ?? '',
+      ]),
+    ));
+
+    lines.push('', 'Status transitions:', formatTable(
+      ['WHEN', 'ENTITY', 'FROM', 'TO', 'ACTOR', 'REASON'],
+      history.transitions.map((transition) => [
+        formatDate(transition.createdAt),
+        transition.entityType,
+        transition.fromStatus,
+        transition.toStatus,
+        transition.actor,
+        transition.reason,
+      ]),
+    ));
+
+    return { data: { ...progress, ...history }, text: lines.join('\n') };
+  }
+
+  private async purge(simulationId: string, args: ParsedArgs): Promise<CommandOutput> {
+    if (!args.flags.has('yes')) {
+      throw new UsageError(`purge deletes every response of ${simulationId}; pass --yes to confirm`);
+    }
+
+    const deleted = await this.recoveryService.purgeSimulationResponses(simulationId, this.actor);
+    return {
+      data: { simulationId, deletedResponses: deleted },
+      text: `Deleted ${deleted} responses of simulation ${simulationId}`,
+    };
+  }
+
+  private async runTask(name: string | undefined, dryRun: boolean): Promise<CommandOutput> {
+    if (!name || !this.cronService.hasTask(name)) {
+      throw new UsageError(`run expects one of: ${this.cronService.getTaskNames().join(', ')}`);
+    }
+
+    // Leader-only tasks need the leader lock, so they are refused while a
+    // running service instance holds it. Dry runs don't need it.
+    if (!dryRun) {
+      await this.leaderElection.start();
+    }
+    const run = await this.cronService.runTask(name, dryRun ? { dryRun } : {});
+    let text = `Task ${name} ${run.success ? 'succeeded' : 'failed'} in ${(run.durationMs / 1000).toFixed(1)}s${dryRun ? ' (dry run, nothing written)' : ''}`;
+    if (run.result && typeof run.result === 'object') {
+      text += `\n  recovered ${run.result.recovered}, failed ${run.result.failed}, total ${run.result.total}`;
+      if (run.result.issues.length > 0) {
+        text += `\n  issues: ${run.result.issues.join('; ')}`;
+      }
+      if (run.result.actions && run.result.actions.length > 0) {
+        text += '\n\n' + formatTable(
+          ['ACTION', 'SIMULATION', 'JOB', 'DETAIL'],
+          run.result.actions.map((action) => [action.type, action.simulationId ?? '-', action.jobId ?? '-', action.detail]),
+        );
+      }
+    }
+
+    return { data: { task: name, ...run }, text };
+  }
+
+  private positiveInt(args: ParsedArgs, flag: string): number | undefined {
+    const value = args.flags.get(flag);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (value === true || !/^\d+$/.test(value) || Number(value) < 1) {
+      throw new UsageError(`--${flag} expects a positive integer, got "${value === true ? '' : value}"`);
+    }
+    return Number(value);
+  }
+
+  private requireTarget(target: string | undefined): string {
+    if (!target) {
+      throw new UsageError('Missing simulation id');
+    }
+    return target;
+  }
+
+  private done(simulationId: string, action: string): CommandOutput {
+    return {
+      data: { simulationId, action, actor: this.actor },
+      text: `Simulation ${simulationId} ${action}`,
+    };
+  }
+}
+
+let cli: OperatorCli;
+try {
+  cli = new OperatorCli(loadConfig());
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+cli
+  .run(process.argv.slice(2))
+  .then((code) => process.exit(code));
@@ -0,0 +1,412 @@
+import { existsSync, readFileSync } from 'fs';
+import { cpus, hostname } from 'os';
+import { resolve } from 'path';
+import { parse } from 'dotenv';
+import { ConfigError } from './errors';
+import { loadCronSchedules, TaskSchedule } from './services/cron-schedule';
+import { OpenAIGeneratorOptions } from './generators/openai.generator';
+import { loadPromptTemplates, PromptTemplate, PromptTemplateRegistry, templateId } from './generators/prompt-templates';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'http' | 'verbose' | 'debug' | 'silly';
+export type ResponseGeneratorKind = 'mock' | 'seeded' | 'openai';
+
+export interface LoggingConfig {
+  level: LogLevel;
+  serviceName: string;
+  serviceVersion: string;
+}
+
+export interface DatabaseConfig {
+  url: string;
+  /** Prisma's pool size: `connection_limit` in the URL, else Prisma's default. */
+  connectionLimit: number;
+  reconnectDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitResetMs: number;
+  circuitMaxResetMs: number;
+}
+
+export interface RecoveryConfig {
+  workerId: string;
+  batchSize: number;
+  personaMaxAttempts: number;
+  /** Personas generated at once across every job this runner processes. */
+  personaConcurrency: number;
+  /**
+   * Personas saving their responses at once; planWorkerCapacity fits it to
+   * the connection pool. Defaults to personaConcurrency.
+   */
+  saveConcurrency?: number;
+  maxPersonaFailureRate: number;
+  jobLeaseSeconds: number;
+  heartbeatIntervalSeconds: number;
+  staleSimulationMinutes: number;
+  maxRecoveryAttempts: number;
+  backoffBaseMinutes: number;
+  backoffMaxMinutes: number;
+  dryRun: boolean;
+}
+
+export interface BillingConfig {
+  enabled: boolean;
+  costPerPersona: number;
+}
+
+export interface SchedulerConfig {
+  /** Running jobs allowed per user and per group; 0 means no cap. */
+  maxRunningPerUser: number;
+  maxRunningPerGroup: number;
+  /** Minutes a job waits to gain one priority level; 0 disables aging. */
+  agingMinutes: number;
+  /** How far back started jobs count towards a user's or group's share. */
+  fairShareWindowMinutes: number;
+  /** Fair-share weight per group id; groups not listed weigh 1. */
+  groupWeights: Record<number, number>;
+}
+
+export interface QueueWorkerConfig {
+  enabled: boolean;
+  /** Jobs processed at once. */
+  concurrency: number;
+  pollIntervalMs: number;
+}
+
+export interface CronConfig {
+  schedules: TaskSchedule[];
+  historySize: number;
+}
+
+export interface LeaderElectionConfig {
+  enabled: boolean;
+  /** Below 2^32, so the lock shows up in pg_locks as classid 0, objid key. */
+  lockKey: number;
+  renewIntervalMs: number;
+}
+
+export interface HttpConfig {
+  port: number;
+  host: string;
+  adminToken?: string;
+}
+
+export interface GeneratorConfig {
+  kind: ResponseGeneratorKind;
+  seed: number;
+  /** Selector of the template used when a job's metadata names none. */
+  promptTemplate: string;
+  promptTemplates: PromptTemplate[];
+  openai: OpenAIGeneratorOptions;
+}
+
+export interface AppConfig {
+  logging: LoggingConfig;
+  database: DatabaseConfig;
+  recovery: RecoveryConfig;
+  billing: BillingConfig;
+  scheduler: SchedulerConfig;
+  queueWorker: QueueWorkerConfig;
+  cron: CronConfig;
+  leaderElection: LeaderElectionConfig;
+  http: HttpConfig;
+  generator: GeneratorConfig;
+}
+
+export interface LoadConfigOptions {
+  /** Defaults to ENV_FILE, then `env.local` in the project root. */
+  envFile?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
+const GENERATOR_KINDS: ResponseGeneratorKind[] = ['mock', 'seeded', 'openai'];
+const DEFAULT_ENV_FILE = resolve(__dirname, '..', 'env.local');
+
+/**
+ * Loads the configuration from, in increasing precedence: built-in defaults,
+ * the env file, and the process environment. Every invalid value is reported
+ * at once in a single ConfigError.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+  const environment = options.env ?? process.env;
+  const envFile = options.envFile ?? environment.ENV_FILE;
+  const env = { ...readEnvFile(envFile ?? DEFAULT_ENV_FILE, envFile !== undefined), ...environment };
+  const reader = new EnvReader(env);
+
+  // Only used as the default of PERSONA_MAX_ATTEMPTS
+  const maxRetries = reader.int('MAX_RETRIES', 3, 1);
+  const databaseUrl = reader.required('DATABASE_URL');
+
+  const config: AppConfig = {
+    logging: {
+      level: reader.oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+      serviceName: reader.string('SERVICE_NAME', 'TwinQuest Recovery Service'),
+      serviceVersion: reader.string('SERVICE_VERSION', '1.0.0'),
+    },
+    database: {
+      url: databaseUrl,
+      connectionLimit: connectionLimitOf(databaseUrl, reader),
+      reconnectDelayMs: reader.int('DB_RECONNECT_DELAY_MS', 5000, 0),
+      circuitFailureThreshold: reader.int('DB_CIRCUIT_FAILURE_THRESHOLD', 5, 1),
+      circuitResetMs: reader.int('DB_CIRCUIT_RESET_MS', 30000, 1000),
+      circuitMaxResetMs: reader.int('DB_CIRCUIT_MAX_RESET_MS', 300000, 1000),
+    },
+    recovery: {
+      workerId: reader.string('WORKER_ID', `${hostname()}-${process.pid}`),
+      batchSize: reader.int('BATCH_SIZE', 10, 1, 1000),
+      personaMaxAttempts: reader.int('PERSONA_MAX_ATTEMPTS', maxRetries, 1),
+      personaConcurrency: reader.int('PERSONA_CONCURRENCY', 10, 1, 1000),
+      maxPersonaFailureRate: reader.number('MAX_PERSONA_FAILURE_RATE', 0.05, 0, 1),
+      jobLeaseSeconds: reader.int('JOB_LEASE_SECONDS', 120, 10),
+      heartbeatIntervalSeconds: reader.int('HEARTBEAT_INTERVAL_SECONDS', 30, 1),
+      staleSimulationMinutes: reader.int('STALE_SIMULATION_MINUTES', 10, 1),
+      maxRecoveryAttempts: reader.int('RECOVERY_MAX_ATTEMPTS', 5, 1),
+      backoffBaseMinutes: reader.int('RECOVERY_BACKOFF_BASE_MINUTES', 5, 0),
+      backoffMaxMinutes: reader.int('RECOVERY_BACKOFF_MAX_MINUTES', 240, 0),
+      dryRun: reader.bool('DRY_RUN', false),
+    },
+    billing: {
+      enabled: reader.bool('BILLING_ENABLED', false),
+      costPerPersona: reader.number('BILLING_COST_PER_PERSONA', 1, 0),
+    },
+    scheduler: {
+      maxRunningPerUser: reader.int('SCHEDULER_MAX_RUNNING_PER_USER', 2, 0),
+      maxRunningPerGroup: reader.int('SCHEDULER_MAX_RUNNING_PER_GROUP', 5, 0),
+      agingMinutes: reader.int('SCHEDULER_AGING_MINUTES', 30, 0),
+      fairShareWindowMinutes: reader.int('SCHEDULER_FAIR_SHARE_WINDOW_MINUTES', 60, 1),
+      groupWeights: reader.weights('SCHEDULER_GROUP_WEIGHTS'),
+    },
+    queueWorker: {
+      enabled: reader.bool('QUEUE_WORKER_ENABLED', true),
+      concurrency: reader.int('QUEUE_WORKER_CONCURRENCY', 1, 1, 100),
+      pollIntervalMs: reader.int('QUEUE_POLL_INTERVAL_MS', 5000, 100),
+    },
+    cron: {
+      schedules: reader.collect(() => loadCronSchedules(env), []),
+      historySize: reader.int('CRON_HISTORY_SIZE', 20, 1, 1000),
+    },
+    leaderElection: {
+      enabled: reader.bool('LEADER_ELECTION_ENABLED', true),
+      lockKey: reader.int('LEADER_LOCK_KEY', 72410001, 0, 2 ** 32 - 1),
+      renewIntervalMs: reader.int('LEADER_RENEW_INTERVAL_MS', 10000, 100),
+    },
+    http: {
+      port: reader.int('PORT', 3001, 0, 65535),
+      host: reader.string('HTTP_HOST', '0.0.0.0'),
+      adminToken: reader.optional('ADMIN_API_TOKEN'),
+    },
+    generator: {
+      kind: reader.oneOf('RESPONSE_GENERATOR', GENERATOR_KINDS, 'mock'),
+      seed: reader.int('RESPONSE_GENERATOR_SEED', 42),
+      promptTemplate: reader.string('PROMPT_TEMPLATE', 'default'),
+      promptTemplates: reader.collect(() => loadPromptTemplates(reader.optional('PROMPT_TEMPLATES_FILE')), []),
+      openai: {
+        baseUrl: reader.url('OPENAI_BASE_URL', 'https://api.openai.com/v1'),
+        apiKey: reader.optional('OPENAI_API_KEY'),
+        model: reader.string('OPENAI_MODEL', 'gpt-4o-mini'),
+        temperature: reader.number('OPENAI_TEMPERATURE', 0.7, 0, 2),
+        timeoutMs: reader.int('OPENAI_TIMEOUT_MS', 60000, 1000),
+        requestsPerMinute: reader.int('OPENAI_REQUESTS_PER_MINUTE', 500, 0),
+        tokensPerMinute: reader.int('OPENAI_TOKENS_PER_MINUTE', 200000, 0),
+        rateLimitRetries: reader.int('OPENAI_RATE_LIMIT_RETRIES', 3, 0, 20),
+      },
+    },
+  };
+
+  if (config.database.circuitResetMs > config.database.circuitMaxResetMs) {
+    reader.fail('DB_CIRCUIT_RESET_MS must not exceed DB_CIRCUIT_MAX_RESET_MS');
+  }
+
+  const { recovery } = config;
+  if (recovery.heartbeatIntervalSeconds >= recovery.jobLeaseSeconds) {
+    reader.fail('HEARTBEAT_INTERVAL_SECONDS must be shorter than JOB_LEASE_SECONDS, or leases expire between heartbeats');
+  }
+  if (recovery.backoffBaseMinutes > recovery.backoffMaxMinutes) {
+    reader.fail('RECOVERY_BACKOFF_BASE_MINUTES must not exceed RECOVERY_BACKOFF_MAX_MINUTES');
+  }
+
+  const { generator } = config;
+  if (generator.promptTemplates.length > 0) {
+    try {
+      new PromptTemplateRegistry(generator.promptTemplates, generator.promptTemplate).resolve();
+    } catch {
+      reader.fail(`PROMPT_TEMPLATE "${generator.promptTemplate}" does not name a known template (${generator.promptTemplates.map(templateId).join(', ')})`);
+    }
+  }
+
+  if (reader.errors.length > 0) {
+    throw new ConfigError(`Invalid configuration:\n  - ${reader.errors.join('\n  - ')}`);
+  }
+
+  return config;
+}
+
+/** Without `connection_limit`, Prisma sizes its pool as twice the CPU count plus one. */
+function connectionLimitOf(url: string, reader: EnvReader): number {
+  const fallback = cpus().length * 2 + 1;
+  let raw: string | null = null;
+  try {
+    raw = new URL(url).searchParams.get('connection_limit');
+  } catch {
+    return fallback;
+  }
+  if (raw === null) {
+    return fallback;
+  }
+
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1) {
+    reader.fail(`connection_limit in DATABASE_URL must be a positive integer, got "${raw}"`);
+    return fallback;
+  }
+  return limit;
+}
+
+/** A missing env file is only an error when it was asked for explicitly. */
+function readEnvFile(path: string, required: boolean): Record<string, string> {
+  if (!existsSync(path)) {
+    if (required) {
+      throw new ConfigError(`Env file ${path} does not exist`);
+    }
+    return {};
+  }
+
+  return parse(readFileSync(path));
+}
+
+/**
+ * Typed lookups over the merged environment. Empty values count as unset.
+ * Invalid values are recorded in `errors` and replaced by the fallback so
+ * the remaining variables are still checked.
+ */
+class EnvReader {
+  readonly errors: string[] = [];
+  private env: Record<string, string | undefined>;
+
+  constructor(env: Record<string, string | undefined>) {
+    this.env = env;
+  }
+
+  optional(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  string(name: string, fallback: string): string {
+    return this.optional(name) ?? fallback;
+  }
+
+  required(name: string): string {
+    const value = this.optional(name);
+    if (value === undefined) {
+      this.fail(`${name} is required`);
+      return '';
+    }
+    return value;
+  }
+
+  int(name: string, fallback: number, min?: number, max?: number): number {
+    const value = this.number(name, fallback, min, max);
+    if (!Number.isInteger(value)) {
+      this.fail(`${name} must be an integer, got "${this.env[name]}"`);
+      return fallback;
+    }
+    return value;
+  }
+
+  number(name: string, fallback: number, min?: number, max?: number): number {
+    const raw = this.optional(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      this.fail(`${name} must be a number, got "${raw}"`);
+      return fallback;
+    }
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      this.fail(`${name} must be ${rangeText(min, max)}, got ${value}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  bool(name: string, fallback: boolean): boolean {
+    const raw = this.optional(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (raw !== 'true' && raw !== 'false') {
+      this.fail(`${name} must be "true" or "false", got "${raw}"`);
+      return fallback;
+    }
+    return raw === 'true';
+  }
+
+  oneOf<T extends string>(name: string, values: T[], fallback: T): T {
+    const raw = this.optional(name)?.toLowerCase();
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (!values.includes(raw as T)) {
+      this.fail(`${name} must be one of ${values.join(', ')}, got "${raw}"`);
+      return fallback;
+    }
+    return raw as T;
+  }
+
+  url(name: string, fallback: string): string {
+    const value = this.string(name, fallback);
+    try {
+      new URL(value);
+    } catch {
+      this.fail(`${name} must be a URL, got "${value}"`);
+    }
+    return value;
+  }
+
+  /** A `key:weight` list such as `3:2,7:0.5`, keyed by integer id. */
+  weights(name: string): Record<number, number> {
+    const raw = this.optional(name);
+    const weights: Record<number, number> = {};
+    if (raw === undefined) {
+      return weights;
+    }
+
+    for (const entry of raw.split(',')) {
+      const [key, value] = entry.split(':').map((part) => part.trim());
+      const id = Number(key);
+      const weight = Number(value);
+      if (!key || !Number.isInteger(id) || !Number.isFinite(weight) || weight <= 0) {
+        this.fail(`${name} must be a list of id:weight pairs with positive weights, got "${entry.trim()}"`);
+        continue;
+      }
+      weights[id] = weight;
+    }
+    return weights;
+  }
+
+  /** Runs a nested loader, folding its ConfigError into this reader's errors. */
+  collect<T>(load: () => T, fallback: T): T {
+    try {
+      return load();
+    } catch (error) {
+      if (!(error instanceof ConfigError)) {
+        throw error;
+      }
+      this.fail(error.message.replace(/\n\s+- /g, '\n    - '));
+      return fallback;
+    }
+  }
+
+  fail(message: string): void {
+    this.errors.push(message);
+  }
+}
+
+function rangeText(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
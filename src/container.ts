@@ -0,0 +1,49 @@
+import { AppConfig } from './config';
+import { RecoveryService } from './services/recovery.service';
+import { CronService } from './services/cron.service';
+import { MetricsService } from './services/metrics.service';
+import { LeaderElectionService } from './services/leader-election.service';
+import { SimulationStateMachine } from './services/simulation-state-machine';
+import { BillingService } from './services/billing.service';
+import { FairShareScheduler } from './services/fair-share-scheduler';
+import { planWorkerCapacity, WorkerCapacity } from './services/worker-capacity';
+import { DatabaseService } from './services/database.service';
+import { LoggerService } from './services/logger.service';
+import { createResponseGenerator, PromptTemplateRegistry } from './generators';
+
+export interface Container {
+  database: DatabaseService;
+  metrics: MetricsService;
+  recoveryService: RecoveryService;
+  leaderElection: LeaderElectionService;
+  cronService: CronService;
+  capacity: WorkerCapacity;
+}
+
+/**
+ * Wires the services shared by the runner and the operator CLI, so both
+ * process simulations with the same collaborators and capacity limits.
+ */
+export function createContainer(config: AppConfig, logger: LoggerService): Container {
+  const database = new DatabaseService(config.database, logger);
+  const metrics = new MetricsService(database, logger);
+  const billing = new BillingService(logger, config.billing);
+  const scheduler = new FairShareScheduler(database, logger, config.scheduler);
+  const capacity = planWorkerCapacity(config);
+  capacity.warnings.forEach((warning) => logger.warn(`⚠️ ${warning}`));
+
+  const recoveryService = new RecoveryService(
+    database,
+    logger,
+    createResponseGenerator(config.generator, logger),
+    metrics,
+    new SimulationStateMachine(database, logger, scheduler, billing),
+    billing,
+    new PromptTemplateRegistry(config.generator.promptTemplates, config.generator.promptTemplate),
+    { ...config.recovery, saveConcurrency: capacity.saves },
+  );
+  const leaderElection = new LeaderElectionService(logger, config.leaderElection, config.database.url);
+  const cronService = new CronService(recoveryService, scheduler, logger, metrics, leaderElection, config.cron);
+
+  return { database, metrics, recoveryService, leaderElection, cronService, capacity };
+}
@@ -0,0 +1,72 @@
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class InvalidStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidStateError';
+  }
+}
+
+export class InvalidTransitionError extends InvalidStateError {
+  constructor(entity: string, id: string, from: string, to: string) {
+    super(`Invalid ${entity} transition for ${id}: ${from} -> ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class InsufficientBudgetError extends InvalidStateError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientBudgetError';
+  }
+}
+
+export class SimulationCancelledError extends Error {
+  constructor(simulationId: string) {
+    super(`Simulation ${simulationId} was cancelled`);
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on job ${jobId} was lost`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export class TaskTimeoutError extends Error {
+  constructor(task: string, seconds: number) {
+    super(`Task ${task} exceeded its ${seconds}s time limit`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+export class DatabaseUnavailableError extends Error {
+  constructor(retryAt: Date | null) {
+    super(`Database unavailable${retryAt ? `; next reconnect attempt at ${retryAt.toISOString()}` : ''}`);
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+export class RateLimitError extends Error {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
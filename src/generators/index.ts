@@ -0,0 +1,24 @@
+import { LoggerService } from '../services/logger.service';
+import { GeneratorConfig } from '../config';
+import { MockResponseGenerator } from './mock.generator';
+import { OpenAIResponseGenerator } from './openai.generator';
+import { ResponseGenerator } from './response-generator';
+import { SeededRandomResponseGenerator } from './seeded-random.generator';
+
+export * from './response-generator';
+export { validateResponses } from './response-validator';
+export * from './prompt-templates';
+export { MockResponseGenerator } from './mock.generator';
+export { OpenAIResponseGenerator } from './openai.generator';
+export { SeededRandomResponseGenerator } from './seeded-random.generator';
+
+export function createResponseGenerator(config: GeneratorConfig, logger: LoggerService): ResponseGenerator {
+  switch (config.kind) {
+    case 'mock':
+      return new MockResponseGenerator();
+    case 'seeded':
+      return new SeededRandomResponseGenerator(config.seed);
+    case 'openai':
+      return new OpenAIResponseGenerator(config.openai, logger);
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  GeneratedResponse,
+  PersonaProfile,
+  QuestionWithOptions,
+  ResponseGenerator,
+  getMatrixRows,
+  getMatrixScale,
+  getSliderRange,
+  sortOptions,
+} from './response-generator';
+
+/**
+ * Always answers with the first option (or the lowest value) of each
+ * question. Useful for smoke testing the pipeline without any randomness or
+ * external calls.
+ */
+export class MockResponseGenerator implements ResponseGenerator {
+  readonly name = 'mock';
+
+  async generate(persona: PersonaProfile, questions: QuestionWithOptions[]): Promise<GeneratedResponse[]> {
+    return questions.flatMap((question) => this.answer(persona, question));
+  }
+
+  private answer(persona: PersonaProfile, question: QuestionWithOptions): GeneratedResponse[] {
+    const firstOption = sortOptions(question.Option)[0];
+
+    switch (question.question_type) {
+      case 'MATRIX': {
+        const point = getMatrixScale(question)[0];
+        return getMatrixRows(question).map((subQuestion) => ({
+          questionId: question.id,
+          optionId: point?.optionId ?? null,
+          answer: point?.label ?? '',
+          subQuestion,
+        }));
+      }
+
+      case 'SLIDER':
+        return [{ questionId: question.id, optionId: null, answer: String(getSliderRange(question).min) }];
+
+      case 'TEXT_ENTRY':
+        return [{ questionId: question.id, optionId: null, answer: `Mock response for persona ${persona.name}` }];
+
+      default:
+        return [{
+          questionId: question.id,
+          optionId: firstOption?.id ?? null,
+          answer: firstOption?.title ?? `Mock response for persona ${persona.name}`,
+        }];
+    }
+  }
+}
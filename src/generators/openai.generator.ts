@@ -0,0 +1,240 @@
+import { LoggerService } from '../services/logger.service';
+import { RateLimitError } from '../errors';
+import { RateLimiter, sharedRateLimiter } from './rate-limiter';
+import { DEFAULT_TEMPLATE, PromptTemplate, renderQuestionPrompt, renderSystemPrompt } from './prompt-templates';
+import {
+  GeneratedResponse,
+  GenerationContext,
+  PersonaProfile,
+  QuestionWithOptions,
+  ResponseGenerator,
+  TokenUsage,
+  clampSliderValue,
+  getMatrixScale,
+} from './response-generator';
+
+export interface OpenAIGeneratorOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  /** Shared by every generator for the same model in this process; 0 means unlimited. */
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  /** 429 responses retried (after their Retry-After) before giving up on a call. */
+  rateLimitRetries: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+// Rough size of a completion per question, for the token estimate before a call
+const COMPLETION_TOKENS_PER_QUESTION = 40;
+
+/**
+ * Calls an OpenAI-compatible `/chat/completions` endpoint once per persona.
+ * The base URL is configurable so a local stand-in server can be used.
+ * Calls wait for the shared rate limiter of the model, and a 429 pauses
+ * that limiter for the response's Retry-After before the call is retried.
+ */
+export class OpenAIResponseGenerator implements ResponseGenerator {
+  readonly name = 'openai';
+  private options: OpenAIGeneratorOptions;
+  private logger: LoggerService;
+  private rateLimiter: RateLimiter;
+
+  constructor(options: OpenAIGeneratorOptions, logger: LoggerService) {
+    this.options = options;
+    this.logger = logger;
+    this.rateLimiter = sharedRateLimiter(`${this.name}:${options.model}`, {
+      requestsPerMinute: options.requestsPerMinute,
+      tokensPerMinute: options.tokensPerMinute,
+    });
+  }
+
+  async generate(
+    persona: PersonaProfile,
+    questions: QuestionWithOptions[],
+    context: GenerationContext = {},
+  ): Promise<GeneratedResponse[]> {
+    const template = context.template ?? DEFAULT_TEMPLATE;
+    const messages = [
+      { role: 'system', content: renderSystemPrompt(template, persona) },
+      { role: 'user', content: this.buildQuestionPrompt(template, persona, questions) },
+    ];
+    const estimatedTokens = Math.ceil(messages.reduce((sum, message) => sum + message.content.length, 0) / 4) +
+      COMPLETION_TOKENS_PER_QUESTION * questions.length;
+
+    const content = await this.complete(messages, estimatedTokens, context.onUsage);
+
+    return this.parseAnswers(content, questions);
+  }
+
+  private async complete(
+    messages: Array<{ role: string; content: string }>,
+    estimatedTokens: number,
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const ticket = await this.rateLimiter.acquire(estimatedTokens);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.options.model,
+          temperature: this.options.temperature,
+          response_format: { type: 'json_object' },
+          messages,
+        }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+
+      if (response.status === 429) {
+        const body = await response.text().catch(() => '');
+        const waitMs = retryAfterMs(response.headers) ?? 1000 * Math.pow(2, attempt + 1);
+        this.rateLimiter.pause(waitMs);
+
+        if (attempt >= this.options.rateLimitRetries) {
+          throw new RateLimitError(`Response generator rate limited: ${body.slice(0, 200)}`, waitMs);
+        }
+        this.logger.warn(`🚦 ${this.options.model} rate limited; retrying in ${waitMs}ms (${attempt + 1}/${this.options.rateLimitRetries})`);
+        continue;
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`Response generator request failed with status ${response.status}: ${body.slice(0, 200)}`);
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      if (data.usage) {
+        const usage: TokenUsage = {
+          model: this.options.model,
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? (data.usage.prompt_tokens ?? 0) + (data.usage.completion_tokens ?? 0),
+        };
+        this.rateLimiter.settle(ticket, usage.totalTokens);
+        onUsage?.(usage);
+      }
+
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error('Response generator returned an empty completion');
+      }
+
+      return content;
+    }
+  }
+
+  /** The template renders the questions; the answer format is fixed so replies can be parsed. */
+  private buildQuestionPrompt(template: PromptTemplate, persona: PersonaProfile, questions: QuestionWithOptions[]): string {
+    return [
+      'Answer the following questions.',
+      ...questions.map((question) => `\n${renderQuestionPrompt(template, persona, question)}`),
+      '',
+      'Respond with JSON of the form {"answers": [{"questionId": number, "optionIds": number[], "value": number, "text": string, "matrix": {"<sub-question>": "<scale label>"}}]}.',
+      'SINGLE_CHOICE: exactly one optionId. MULTIPLE_CHOICE: one or more optionIds.',
+      'MATRIX: one scale label per sub-question in "matrix". SLIDER: a number within range in "value".',
+      'TEXT_ENTRY: a free-text answer in "text".',
+    ].join('\n');
+  }
+
+  private parseAnswers(content: string, questions: QuestionWithOptions[]): GeneratedResponse[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error('Response generator returned invalid JSON');
+    }
+
+    const { answers: list } = asRecord(parsed);
+    const answers = Array.isArray(list) ? list.map(asRecord) : [];
+    const responses: GeneratedResponse[] = [];
+
+    for (const question of questions) {
+      const answer = answers.find((candidate) => Number(candidate.questionId) === question.id);
+      if (!answer) {
+        this.logger.warn(`Response generator did not answer question ${question.id}`);
+        continue;
+      }
+      responses.push(...this.toResponses(question, answer));
+    }
+
+    return responses;
+  }
+
+  private toResponses(question: QuestionWithOptions, answer: Record<string, unknown>): GeneratedResponse[] {
+    const optionIds: number[] = Array.isArray(answer.optionIds)
+      ? answer.optionIds.map(Number)
+      : answer.optionId !== undefined && answer.optionId !== null ? [Number(answer.optionId)] : [];
+    const titleOf = (optionId: number) =>
+      question.Option.find((option) => option.id === optionId)?.title ?? String(answer.text ?? '');
+
+    switch (question.question_type) {
+      case 'MATRIX': {
+        const scale = getMatrixScale(question);
+        return Object.entries(asRecord(answer.matrix)).map(([subQuestion, label]) => ({
+          questionId: question.id,
+          optionId: scale.find((point) => point.label === label)?.optionId ?? null,
+          answer: String(label),
+          subQuestion,
+        }));
+      }
+
+      case 'SLIDER': {
+        const value = Number(answer.value ?? answer.text);
+        return [{
+          questionId: question.id,
+          optionId: null,
+          answer: Number.isFinite(value) ? String(clampSliderValue(question, value)) : String(answer.value ?? ''),
+        }];
+      }
+
+      case 'TEXT_ENTRY':
+        return [{ questionId: question.id, optionId: null, answer: String(answer.text ?? answer.answer ?? '') }];
+
+      default:
+        if (optionIds.length === 0) {
+          return [{ questionId: question.id, optionId: null, answer: String(answer.text ?? '') }];
+        }
+        return optionIds.map((optionId) => ({ questionId: question.id, optionId, answer: titleOf(optionId) }));
+    }
+  }
+}
+
+/** `value` if it is a JSON object, else an empty one. */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/** `retry-after-ms` (OpenAI) or `Retry-After` as seconds or an HTTP date. */
+function retryAfterMs(headers: Headers): number | null {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') && Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
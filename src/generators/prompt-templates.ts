@@ -0,0 +1,256 @@
+import { readFileSync } from 'fs';
+import { QuestionType } from '@prisma/client';
+import { ConfigError, NotFoundError } from '../errors';
+import {
+  PersonaProfile,
+  QuestionWithOptions,
+  getMatrixRows,
+  getMatrixScale,
+  getSliderRange,
+  sortOptions,
+} from './response-generator';
+
+/**
+ * How a persona and its questions become a prompt. A template is identified
+ * by `name@version`; published versions must never change, so a recorded id
+ * always rebuilds the same prompts.
+ *
+ * Templates use `{{variable}}` placeholders. `system` may use the persona
+ * variables; each question template may also use the question variables and
+ * must contain `{{question.id}}` so answers can be matched to questions. A
+ * line whose variables all have no value (e.g. only an empty description) is
+ * left out; on other lines an empty variable renders as an empty string.
+ */
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  system: string;
+  questions: Record<QuestionType, string>;
+}
+
+const PERSONA_VARIABLES = ['persona.id', 'persona.name', 'persona.description'];
+const QUESTION_VARIABLES = [
+  'question.id',
+  'question.title',
+  'question.type',
+  'options',
+  'scale',
+  'subQuestions',
+  'range.min',
+  'range.max',
+  'minLabel',
+  'maxLabel',
+];
+const QUESTION_TYPES = Object.values(QuestionType);
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  name: 'default',
+  version: 1,
+  system: [
+    'You are answering a survey as the persona "{{persona.name}}".',
+    'Persona description: {{persona.description}}',
+    'Stay in character and answer every question.',
+  ].join('\n'),
+  questions: {
+    SINGLE_CHOICE: [
+      'Question {{question.id}} (SINGLE_CHOICE): {{question.title}}',
+      'Choose exactly one option:',
+      '{{options}}',
+    ].join('\n'),
+    MULTIPLE_CHOICE: [
+      'Question {{question.id}} (MULTIPLE_CHOICE): {{question.title}}',
+      'Choose one or more options:',
+      '{{options}}',
+    ].join('\n'),
+    MATRIX: [
+      'Question {{question.id}} (MATRIX): {{question.title}}',
+      'Rate each statement with one of: {{scale}}',
+      '{{subQuestions}}',
+    ].join('\n'),
+    SLIDER: [
+      'Question {{question.id}} (SLIDER): {{question.title}}',
+      'Pick a number from {{range.min}} to {{range.max}}.',
+      '{{range.min}} means: {{minLabel}}',
+      '{{range.max}} means: {{maxLabel}}',
+    ].join('\n'),
+    TEXT_ENTRY: [
+      'Question {{question.id}} (TEXT_ENTRY): {{question.title}}',
+      'Answer in your own words.',
+    ].join('\n'),
+  },
+};
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [DEFAULT_TEMPLATE];
+
+export function templateId(template: PromptTemplate): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * The built-in templates plus those in the JSON file at `path`, which holds
+ * an array of templates. Every problem found is reported at once in a single
+ * ConfigError.
+ */
+export function loadPromptTemplates(path?: string): PromptTemplate[] {
+  const errors: string[] = [];
+  const templates = [...BUILT_IN_TEMPLATES];
+
+  if (path) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new ConfigError(`Invalid prompt templates:\n  - ${path}: ${error instanceof Error ? error.message : 'unreadable'}`);
+    }
+
+    if (!Array.isArray(parsed)) {
+      errors.push(`${path}: expected a JSON array of templates`);
+    } else {
+      parsed.forEach((template, index) => {
+        if (validateTemplate(template, `${path}[${index}]`, errors)) {
+          templates.push(template);
+        }
+      });
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const template of templates) {
+    const id = templateId(template);
+    if (seen.has(id)) {
+      errors.push(`template ${id} is defined more than once`);
+    }
+    seen.add(id);
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid prompt templates:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return templates;
+}
+
+function validateTemplate(template: unknown, label: string, errors: string[]): template is PromptTemplate {
+  const before = errors.length;
+
+  if (typeof template !== 'object' || template === null) {
+    errors.push(`${label}: expected an object`);
+    return false;
+  }
+
+  const { name, version, system, questions } = template as Record<string, unknown>;
+  if (typeof name !== 'string' || !/^[\w-]+$/.test(name)) {
+    errors.push(`${label}: name must be letters, digits, "_" or "-", got "${name}"`);
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push(`${label}: version must be a positive integer, got "${version}"`);
+  }
+  if (typeof system !== 'string') {
+    errors.push(`${label}: system must be a string`);
+  } else {
+    checkVariables(system, PERSONA_VARIABLES, `${label}.system`, errors);
+  }
+
+  for (const type of QUESTION_TYPES) {
+    const text = typeof questions === 'object' && questions !== null
+      ? (questions as Record<string, unknown>)[type]
+      : undefined;
+    if (typeof text !== 'string') {
+      errors.push(`${label}: questions.${type} must be a string`);
+      continue;
+    }
+    checkVariables(text, [...PERSONA_VARIABLES, ...QUESTION_VARIABLES], `${label}.questions.${type}`, errors);
+    if (!text.includes('{{question.id}}')) {
+      errors.push(`${label}.questions.${type}: must contain {{question.id}}`);
+    }
+  }
+
+  return errors.length === before;
+}
+
+function checkVariables(text: string, allowed: string[], label: string, errors: string[]): void {
+  for (const [, name] of text.matchAll(PLACEHOLDER)) {
+    if (!allowed.includes(name)) {
+      errors.push(`${label}: unknown variable {{${name}}}`);
+    }
+  }
+}
+
+/**
+ * Resolves template selectors: `name@version` picks that version and a bare
+ * `name` the latest one. No selector means the configured default.
+ */
+export class PromptTemplateRegistry {
+  private templates: PromptTemplate[];
+  private defaultSelector: string;
+
+  constructor(templates: PromptTemplate[], defaultSelector: string) {
+    this.templates = templates;
+    this.defaultSelector = defaultSelector;
+  }
+
+  resolve(selector?: string | null): PromptTemplate {
+    const wanted = selector || this.defaultSelector;
+    const [name, version] = wanted.split('@');
+
+    const matches = this.templates
+      .filter((template) => template.name === name && (version === undefined || String(template.version) === version))
+      .sort((a, b) => b.version - a.version);
+
+    if (matches.length === 0) {
+      throw new NotFoundError(`Prompt template ${wanted} not found`);
+    }
+    return matches[0];
+  }
+
+  list(): string[] {
+    return this.templates.map(templateId);
+  }
+}
+
+export function renderSystemPrompt(template: PromptTemplate, persona: PersonaProfile): string {
+  return render(template.system, personaVariables(persona));
+}
+
+export function renderQuestionPrompt(template: PromptTemplate, persona: PersonaProfile, question: QuestionWithOptions): string {
+  return render(template.questions[question.question_type], {
+    ...personaVariables(persona),
+    ...questionVariables(question),
+  });
+}
+
+function personaVariables(persona: PersonaProfile): Record<string, string> {
+  return {
+    'persona.id': String(persona.id),
+    'persona.name': persona.name ?? '',
+    'persona.description': persona.description ?? '',
+  };
+}
+
+function questionVariables(question: QuestionWithOptions): Record<string, string> {
+  const range = getSliderRange(question);
+  return {
+    'question.id': String(question.id),
+    'question.title': question.title,
+    'question.type': question.question_type,
+    options: sortOptions(question.Option).map((option) => `- [${option.id}] ${option.title}`).join('\n'),
+    scale: getMatrixScale(question).map((point) => point.label).join(', '),
+    subQuestions: getMatrixRows(question).map((subQuestion) => `- ${subQuestion}`).join('\n'),
+    'range.min': String(range.min),
+    'range.max': String(range.max),
+    minLabel: question.min_description ?? '',
+    maxLabel: question.max_description ?? '',
+  };
+}
+
+function render(text: string, variables: Record<string, string>): string {
+  return text
+    .split('\n')
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER)].map(([, name]) => name);
+      return names.length === 0 || names.some((name) => variables[name]);
+    })
+    .map((line) => line.replace(PLACEHOLDER, (_, name: string) => variables[name] ?? ''))
+    .join('\n');
+}
@@ -0,0 +1,107 @@
+export interface RateLimits {
+  /** 0 means unlimited. */
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+/** A request counted against the limiter; settle it with the tokens actually used. */
+export interface RateLimitTicket {
+  at: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60000;
+
+const sharedLimiters = new Map<string, RateLimiter>();
+
+/**
+ * The process-wide limiter for `key` (e.g. `openai:gpt-4o-mini`), so every
+ * batch and job calling the same provider and model draws from one budget.
+ * The limits of the first caller win.
+ */
+export function sharedRateLimiter(key: string, limits: RateLimits): RateLimiter {
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(limits);
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Sliding one-minute window over requests and tokens. Callers are served in
+ * order; each waits until its request and estimated tokens fit the window
+ * and any pause from a 429 has passed. A single request larger than the
+ * token limit goes through once the window is empty.
+ */
+export class RateLimiter {
+  private limits: RateLimits;
+  private window: RateLimitTicket[] = [];
+  private pausedUntil: number = 0;
+  private turn: Promise<unknown> = Promise.resolve();
+
+  constructor(limits: RateLimits) {
+    this.limits = limits;
+  }
+
+  acquire(estimatedTokens: number): Promise<RateLimitTicket> {
+    const ticket = this.turn.then(() => this.waitForCapacity(estimatedTokens));
+    this.turn = ticket.catch(() => undefined);
+    return ticket;
+  }
+
+  /** Replaces a ticket's estimate with the tokens the provider reported. */
+  settle(ticket: RateLimitTicket, tokens: number): void {
+    ticket.tokens = tokens;
+  }
+
+  /** Holds every caller back for `ms`, e.g. for a 429's Retry-After. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForCapacity(tokens: number): Promise<RateLimitTicket> {
+    for (;;) {
+      const now = Date.now();
+      this.window = this.window.filter((ticket) => ticket.at > now - WINDOW_MS);
+
+      const waitMs = Math.max(this.pausedUntil - now, this.requestWait(now), this.tokenWait(now, tokens));
+      if (waitMs <= 0) {
+        const ticket = { at: now, tokens };
+        this.window.push(ticket);
+        return ticket;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private requestWait(now: number): number {
+    const { requestsPerMinute } = this.limits;
+    if (requestsPerMinute <= 0 || this.window.length < requestsPerMinute) {
+      return 0;
+    }
+    return this.window[this.window.length - requestsPerMinute].at + WINDOW_MS - now;
+  }
+
+  private tokenWait(now: number, tokens: number): number {
+    const { tokensPerMinute } = this.limits;
+    if (tokensPerMinute <= 0 || this.window.length === 0) {
+      return 0;
+    }
+
+    let used = this.window.reduce((sum, ticket) => sum + ticket.tokens, 0);
+    if (used + tokens <= tokensPerMinute) {
+      return 0;
+    }
+
+    // Wait until enough of the oldest requests leave the window
+    for (const ticket of this.window) {
+      used -= ticket.tokens;
+      if (used + tokens <= tokensPerMinute) {
+        return ticket.at + WINDOW_MS - now;
+      }
+    }
+    return this.window[this.window.length - 1].at + WINDOW_MS - now;
+  }
+}
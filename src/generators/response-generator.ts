@@ -0,0 +1,89 @@
+import { Option, Question, personas } from '@prisma/client';
+import { PromptTemplate } from './prompt-templates';
+
+export type QuestionWithOptions = Question & { Option: Option[] };
+
+export type PersonaProfile = Pick<personas, 'id' | 'name' | 'description'>;
+
+/**
+ * One `survey_responses` row. MULTIPLE_CHOICE questions produce one row per
+ * selected option and MATRIX questions one row per row of getMatrixRows.
+ */
+export interface GeneratedResponse {
+  questionId: number;
+  optionId: number | null;
+  answer: string;
+  subQuestion?: string;
+}
+
+/** Tokens a model call consumed, as reported by the provider. */
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerationContext {
+  /** Builds the prompts of generators that call a model; others ignore it. */
+  template?: PromptTemplate;
+  /** Receives the tokens of each model call. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Produces survey answers for a single persona. Implementations receive the
+ * full question definitions (including options) and must answer every
+ * question in the shape its `question_type` requires.
+ */
+export interface ResponseGenerator {
+  readonly name: string;
+  generate(
+    persona: PersonaProfile,
+    questions: QuestionWithOptions[],
+    context?: GenerationContext,
+  ): Promise<GeneratedResponse[]>;
+}
+
+export interface MatrixScalePoint {
+  label: string;
+  optionId: number | null;
+}
+
+const DEFAULT_SLIDER_MIN = 0;
+const DEFAULT_SLIDER_MAX = 100;
+
+export function getSliderRange(question: Question): { min: number; max: number } {
+  const min = question.min_value ?? DEFAULT_SLIDER_MIN;
+  const max = question.max_value ?? DEFAULT_SLIDER_MAX;
+  return min <= max ? { min, max } : { min: max, max: min };
+}
+
+export function clampSliderValue(question: Question, value: number): number {
+  const { min, max } = getSliderRange(question);
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * The answer scale of a MATRIX question: its `scale_labels` when set,
+ * otherwise its options in display order.
+ */
+export function getMatrixScale(question: QuestionWithOptions): MatrixScalePoint[] {
+  if (question.scale_labels.length > 0) {
+    return question.scale_labels.map((label) => ({ label, optionId: null }));
+  }
+
+  return sortOptions(question.Option).map((option) => ({ label: option.title, optionId: option.id }));
+}
+
+/**
+ * The rows of a MATRIX question: its sub-questions, or, when it has none, a
+ * single row named after the question's title.
+ */
+export function getMatrixRows(question: QuestionWithOptions): string[] {
+  return question.sub_questions.length > 0 ? question.sub_questions : [question.title];
+}
+
+export function sortOptions(options: Option[]): Option[] {
+  return [...options].sort((a, b) => a.order - b.order);
+}
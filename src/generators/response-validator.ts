@@ -0,0 +1,119 @@
+import {
+  GeneratedResponse,
+  QuestionWithOptions,
+  getMatrixRows,
+  getMatrixScale,
+  getSliderRange,
+} from './response-generator';
+
+/**
+ * Checks generated responses against each question's type. Returns a list of
+ * human-readable problems; an empty list means the responses can be saved.
+ */
+export function validateResponses(
+  questions: QuestionWithOptions[],
+  responses: GeneratedResponse[],
+): string[] {
+  const issues: string[] = [];
+  const questionIds = new Set(questions.map((question) => question.id));
+
+  for (const response of responses) {
+    if (!questionIds.has(response.questionId)) {
+      issues.push(`Response references unknown question ${response.questionId}`);
+    }
+  }
+
+  for (const question of questions) {
+    const rows = responses.filter((response) => response.questionId === question.id);
+    issues.push(...validateQuestion(question, rows));
+  }
+
+  return issues;
+}
+
+function validateQuestion(question: QuestionWithOptions, rows: GeneratedResponse[]): string[] {
+  const issues: string[] = [];
+  const label = `Question ${question.id} (${question.question_type})`;
+  const optionIds = new Set(question.Option.map((option) => option.id));
+
+  if (rows.length === 0) {
+    return [`${label} has no answer`];
+  }
+
+  for (const row of rows) {
+    if (row.optionId !== null && !optionIds.has(row.optionId)) {
+      issues.push(`${label} answered with option ${row.optionId} that does not belong to it`);
+    }
+  }
+
+  switch (question.question_type) {
+    case 'SINGLE_CHOICE':
+      if (rows.length !== 1) {
+        issues.push(`${label} expects exactly one answer, got ${rows.length}`);
+      }
+      if (optionIds.size > 0 && rows.some((row) => row.optionId === null)) {
+        issues.push(`${label} requires an option`);
+      }
+      break;
+
+    case 'MULTIPLE_CHOICE': {
+      if (optionIds.size > 0 && rows.some((row) => row.optionId === null)) {
+        issues.push(`${label} requires an option on every row`);
+      }
+      const selected = rows.map((row) => row.optionId);
+      if (new Set(selected).size !== selected.length) {
+        issues.push(`${label} selects the same option more than once`);
+      }
+      break;
+    }
+
+    case 'MATRIX': {
+      const scale = getMatrixScale(question).map((point) => point.label);
+      const matrixRows = getMatrixRows(question);
+      const answered = rows.map((row) => row.subQuestion);
+      for (const subQuestion of matrixRows) {
+        const count = answered.filter((value) => value === subQuestion).length;
+        if (count !== 1) {
+          issues.push(`${label} expects one answer for sub-question "${subQuestion}", got ${count}`);
+        }
+      }
+      for (const row of rows) {
+        if (!row.subQuestion || !matrixRows.includes(row.subQuestion)) {
+          issues.push(`${label} answered unknown sub-question "${row.subQuestion ?? ''}"`);
+        }
+        if (scale.length > 0 && !scale.includes(row.answer)) {
+          issues.push(`${label} answered "${row.answer}" which is not on its scale`);
+        }
+      }
+      break;
+    }
+
+    case 'SLIDER': {
+      if (rows.length !== 1) {
+        issues.push(`${label} expects exactly one answer, got ${rows.length}`);
+      }
+      const { min, max } = getSliderRange(question);
+      const value = Number(rows[0].answer);
+      if (rows[0].answer.trim() === '' || !Number.isFinite(value)) {
+        issues.push(`${label} expects a numeric answer, got "${rows[0].answer}"`);
+      } else if (value < min || value > max) {
+        issues.push(`${label} answer ${value} is outside ${min}-${max}`);
+      }
+      break;
+    }
+
+    case 'TEXT_ENTRY':
+      if (rows.length !== 1) {
+        issues.push(`${label} expects exactly one answer, got ${rows.length}`);
+      }
+      if (rows.some((row) => row.optionId !== null)) {
+        issues.push(`${label} must not reference an option`);
+      }
+      if (rows.some((row) => row.answer.trim() === '')) {
+        issues.push(`${label} has an empty answer`);
+      }
+      break;
+  }
+
+  return issues;
+}
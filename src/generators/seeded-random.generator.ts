@@ -0,0 +1,90 @@
+import {
+  GeneratedResponse,
+  PersonaProfile,
+  QuestionWithOptions,
+  ResponseGenerator,
+  getMatrixRows,
+  getMatrixScale,
+  getSliderRange,
+  sortOptions,
+} from './response-generator';
+
+/**
+ * Picks answers pseudo-randomly from a seed combined with the persona and
+ * question ids, so the same seed always yields the same answers.
+ */
+export class SeededRandomResponseGenerator implements ResponseGenerator {
+  readonly name = 'seeded';
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed;
+  }
+
+  async generate(persona: PersonaProfile, questions: QuestionWithOptions[]): Promise<GeneratedResponse[]> {
+    return questions.flatMap((question) => this.answer(persona, question));
+  }
+
+  private answer(persona: PersonaProfile, question: QuestionWithOptions): GeneratedResponse[] {
+    const random = this.createRandom(persona.id, question.id);
+    const options = sortOptions(question.Option);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+    switch (question.question_type) {
+      case 'MULTIPLE_CHOICE': {
+        if (options.length === 0) break;
+        const selected = options.filter(() => random() < 0.5);
+        return (selected.length > 0 ? selected : [pick(options)]).map((option) => ({
+          questionId: question.id,
+          optionId: option.id,
+          answer: option.title,
+        }));
+      }
+
+      case 'MATRIX': {
+        const scale = getMatrixScale(question);
+        return getMatrixRows(question).map((subQuestion) => {
+          const point = scale.length > 0 ? pick(scale) : { label: '', optionId: null };
+          return { questionId: question.id, optionId: point.optionId, answer: point.label, subQuestion };
+        });
+      }
+
+      case 'SLIDER': {
+        const { min, max } = getSliderRange(question);
+        const value = Math.round(min + random() * (max - min));
+        return [{ questionId: question.id, optionId: null, answer: String(value) }];
+      }
+
+      case 'TEXT_ENTRY':
+        return [{
+          questionId: question.id,
+          optionId: null,
+          answer: `Seeded response ${Math.floor(random() * 1000)} for persona ${persona.name}`,
+        }];
+    }
+
+    if (options.length === 0) {
+      return [{
+        questionId: question.id,
+        optionId: null,
+        answer: `Seeded response ${Math.floor(random() * 1000)} for persona ${persona.name}`,
+      }];
+    }
+
+    const option = pick(options);
+    return [{ questionId: question.id, optionId: option.id, answer: option.title }];
+  }
+
+  protected createRandom(personaId: number, questionId: number): () => number {
+    // mulberry32, seeded from a simple hash of (seed, persona, question)
+    let state = (this.seed ^ Math.imul(personaId, 0x9e3779b1) ^ Math.imul(questionId, 0x85ebca6b)) >>> 0;
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
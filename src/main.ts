@@ -1,24 +1,47 @@
-import { config } from 'dotenv';
-import { resolve } from 'path';
-
-// Load environment variables from env.local file
-config({ path: resolve(__dirname, '../../env.local') });
+import { AppConfig, loadConfig } from './config';
+import { createContainer } from './container';
 import { RecoveryService } from './services/recovery.service';
 import { CronService } from './services/cron.service';
+import { QueueWorkerService } from './services/queue-worker.service';
+import { HttpService } from './services/http.service';
+import { MetricsService } from './services/metrics.service';
+import { LeaderElectionService } from './services/leader-election.service';
 import { DatabaseService } from './services/database.service';
 import { LoggerService } from './services/logger.service';
 
 class RecoveryApplication {
+  private config: AppConfig;
   private recoveryService: RecoveryService;
   private cronService: CronService;
+  private queueWorker: QueueWorkerService;
+  private httpService: HttpService;
+  private metrics: MetricsService;
+  private leaderElection: LeaderElectionService;
   private databaseService: DatabaseService;
   private logger: LoggerService;
 
-  constructor() {
-    this.logger = new LoggerService();
-    this.databaseService = new DatabaseService();
-    this.recoveryService = new RecoveryService(this.databaseService, this.logger);
-    this.cronService = new CronService(this.recoveryService, this.logger);
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.logger = new LoggerService(config.logging);
+    const container = createContainer(config, this.logger);
+    this.databaseService = container.database;
+    this.metrics = container.metrics;
+    this.recoveryService = container.recoveryService;
+    this.leaderElection = container.leaderElection;
+    this.cronService = container.cronService;
+    this.queueWorker = new QueueWorkerService(
+      this.recoveryService,
+      this.logger,
+      { ...config.queueWorker, concurrency: container.capacity.jobs },
+    );
+    this.httpService = new HttpService(
+      this.databaseService,
+      this.recoveryService,
+      this.cronService,
+      this.logger,
+      this.metrics,
+      config.http,
+    );
   }
 
   async start() {
@@ -28,21 +51,36 @@ class RecoveryApplication {
       // Initialize database connection with retry
       await this.initializeDatabase();
 
+      // Join leader election before scheduling leader-only tasks
+      await this.leaderElection.start();
+
       // Start cron jobs
       await this.cronService.start();
       this.logger.info('✅ Cron jobs started successfully');
 
-      // Perform initial recovery check
-      await this.recoveryService.checkAndRecoverIncompleteSimulations();
+      // Start processing queued simulations
+      if (this.config.queueWorker.enabled) {
+        this.queueWorker.start();
+      }
 
-      this.logger.info('🎉 TwinQuest Recovery Service is running!');
-      this.logger.info('📊 Service Status: ACTIVE');
-      this.logger.info('🔌 Recovery Service running on port 3001');
+      // Start the admin and status API
+      await this.httpService.start();
 
-      // Keep the process alive
+      // Shut down gracefully from here on, including during the initial recovery
       process.on('SIGINT', this.gracefulShutdown.bind(this));
       process.on('SIGTERM', this.gracefulShutdown.bind(this));
 
+      // Perform initial recovery check in the background; a slow or failed
+      // run is recorded in the task history and must not stop the service
+      if (this.leaderElection.isLeader()) {
+        this.cronService.runTask('recovery').catch((error) => {
+          this.logger.error('❌ Initial recovery check failed:', error);
+        });
+      }
+
+      this.logger.info('🎉 TwinQuest Recovery Service is running!');
+      this.logger.info('📊 Service Status: ACTIVE');
+
       // Start connection monitoring
       this.startConnectionMonitoring();
 
@@ -76,29 +114,22 @@ class RecoveryApplication {
   }
 
   private startConnectionMonitoring(): void {
-    // Check database connection every 5 seconds for very responsive recovery
-    setInterval(async () => {
-      try {
-        const isHealthy = await this.databaseService.healthCheck();
-        if (!isHealthy) {
-          this.logger.warn('⚠️ Database health check failed, attempting to reconnect...');
-          const reconnected = await this.databaseService.reconnect();
-          if (reconnected) {
-            this.logger.info('✅ Database reconnected successfully');
-          } else {
-            this.logger.error('❌ Failed to reconnect to database');
-          }
-        }
-      } catch (error) {
-        this.logger.error('❌ Error during connection monitoring:', error);
-        // Try to reconnect on any error
-        this.logger.warn('🔄 Attempting to reconnect due to monitoring error...');
-        const reconnected = await this.databaseService.reconnect();
-        if (reconnected) {
-          this.logger.info('✅ Database reconnected after monitoring error');
-        }
+    // Resume queue polling as soon as the database is back
+    this.databaseService.onConnectionStateChange((event) => {
+      if (event.state === 'CONNECTED') {
+        this.queueWorker.wake();
+      } else if (event.previous === 'CONNECTED') {
+        this.logger.warn(`⚠️ Database disconnected (circuit ${event.circuit})${event.error ? `: ${event.error}` : ''}`);
       }
-    }, 5000); // 5 seconds for very responsive recovery
+    });
+
+    // Ping every 5 seconds so a dead connection is noticed even when idle;
+    // DatabaseService reconnects on its own backoff from there
+    setInterval(() => {
+      this.databaseService.healthCheck().catch((error) => {
+        this.logger.error('❌ Error during connection monitoring:', error);
+      });
+    }, 5000);
   }
 
   private delay(ms: number): Promise<void> {
@@ -109,7 +140,10 @@ class RecoveryApplication {
     this.logger.info('🛑 Shutting down recovery service...');
     
     try {
+      await this.httpService.stop();
       await this.cronService.stop();
+      await this.queueWorker.stop();
+      await this.leaderElection.stop();
       await this.databaseService.disconnect();
       this.logger.info('✅ Graceful shutdown completed');
       process.exit(0);
@@ -120,8 +154,14 @@ class RecoveryApplication {
   }
 }
 
-// Start the application
-const app = new RecoveryApplication();
+// Start the application; invalid configuration stops it before anything connects
+let app: RecoveryApplication;
+try {
+  app = new RecoveryApplication(loadConfig());
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 app.start().catch((error) => {
   console.error('Failed to start application:', error);
   process.exit(1);
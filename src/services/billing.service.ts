@@ -0,0 +1,258 @@
+import { Prisma } from '@prisma/client';
+import { LoggerService } from './logger.service';
+import { JobStatus } from './simulation-state-machine';
+import { BillingConfig } from '../config';
+import { InsufficientBudgetError, NotFoundError } from '../errors';
+
+/** Stored under `metadata.billing` on the queue job. Amounts are decimal strings. */
+export interface JobBilling {
+  status: 'RESERVED' | 'RELEASED';
+  groupId: number;
+  groupUserId: number;
+  costPerPersona: string;
+  /** Held from the budget and not yet charged. */
+  reserved: string;
+  charged: string;
+  personasCharged: number;
+}
+
+/** Job statuses on which the remaining reservation goes back to the user. */
+const RELEASE_STATUSES: JobStatus[] = ['COMPLETED', 'PARTIALLY_COMPLETED', 'FAILED', 'DEAD_LETTER', 'CANCELLED'];
+
+interface JobRow {
+  job_id: string;
+  user_id: number;
+  survey_id: number;
+  persona_count: number;
+  selected_persona_ids: number[];
+  metadata: Prisma.JsonValue;
+}
+
+interface GroupUserRow {
+  id: number;
+  budget: Prisma.Decimal;
+}
+
+/**
+ * Charges simulations to the submitting user's budget in their survey's
+ * group. Claiming a job first reserves the cost of its remaining personas
+ * (a MINES transaction), each saved persona is then charged against that
+ * reservation in the transaction saving it, and whatever is still reserved
+ * when the job completes, fails or is cancelled is refunded (an ADD
+ * transaction). Failed personas are never charged.
+ */
+export class BillingService {
+  private logger: LoggerService;
+  private enabled: boolean;
+  private costPerPersona: Prisma.Decimal;
+
+  constructor(logger: LoggerService, config: BillingConfig) {
+    this.logger = logger;
+    this.enabled = config.enabled;
+    this.costPerPersona = new Prisma.Decimal(config.costPerPersona);
+  }
+
+  /**
+   * Reserves the cost of the job's unanswered personas as it is claimed.
+   * Runs inside the claiming transaction, so a refused job is never handed
+   * to a worker. Does nothing while an earlier reservation is still held,
+   * since that already covers every persona not charged yet. Throws
+   * InsufficientBudgetError when the user's budget can't cover it.
+   */
+  async reserve(tx: Prisma.TransactionClient, jobId: string): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const job = await this.lockJob(tx, jobId);
+    const billing = this.readBilling(job);
+    if (billing?.status === 'RESERVED') {
+      return;
+    }
+
+    const personas = await this.unansweredPersonas(tx, job);
+    if (personas <= 0) {
+      return;
+    }
+
+    const [survey] = await tx.$queryRaw<Array<{ group_id: number }>>`
+      SELECT group_id FROM surveys WHERE id = ${job.survey_id}
+    `;
+    if (!survey) {
+      throw new InsufficientBudgetError(`Survey ${job.survey_id} of job ${jobId} not found; job can't be charged`);
+    }
+
+    const [groupUser] = await tx.$queryRaw<GroupUserRow[]>`
+      SELECT id, budget FROM "GroupUser"
+      WHERE user_id = ${job.user_id} AND group_id = ${survey.group_id}
+      FOR UPDATE
+    `;
+    if (!groupUser) {
+      throw new InsufficientBudgetError(`User ${job.user_id} is not a member of group ${survey.group_id}; job ${jobId} can't be charged`);
+    }
+
+    // Keep the rate of the first reservation so a job is billed consistently
+    const rate = billing ? new Prisma.Decimal(billing.costPerPersona) : this.costPerPersona;
+    const amount = rate.mul(personas).toDecimalPlaces(2);
+    const budget = new Prisma.Decimal(groupUser.budget);
+
+    if (budget.lessThan(amount)) {
+      throw new InsufficientBudgetError(
+        `Insufficient budget for job ${jobId}: ${personas} personas cost ${amount.toFixed(2)}, ` +
+        `user ${job.user_id} has ${budget.toFixed(2)} in group ${survey.group_id}`,
+      );
+    }
+
+    await tx.groupUser.update({
+      where: { id: groupUser.id },
+      data: { budget: { decrement: amount } },
+    });
+    await tx.transactions.create({
+      data: {
+        userId: job.user_id,
+        groupId: survey.group_id,
+        groupUserId: groupUser.id,
+        amount,
+        type: 'MINES',
+        description: `Reserved ${personas} personas for simulation job ${jobId}`,
+      },
+    });
+
+    await this.writeBilling(tx, job, {
+      status: 'RESERVED',
+      groupId: survey.group_id,
+      groupUserId: groupUser.id,
+      costPerPersona: rate.toString(),
+      reserved: amount.toFixed(2),
+      charged: billing?.charged ?? '0.00',
+      personasCharged: billing?.personasCharged ?? 0,
+    });
+
+    this.logger.info(`💳 Reserved ${amount.toFixed(2)} for job ${jobId} (${personas} personas)`);
+  }
+
+  /**
+   * Charges `personas` saved personas against the job's reservation. Runs
+   * inside the caller's transaction so the charge commits together with
+   * the saved responses. The budget already paid for them when it was
+   * reserved, so the charge is booked as two transactions that leave it
+   * unchanged: an ADD releasing that part of the reservation and a MINES
+   * charging it.
+   */
+  async settle(tx: Prisma.TransactionClient, jobId: string, personas: number): Promise<void> {
+    if (!this.enabled || personas <= 0) {
+      return;
+    }
+
+    const job = await this.lockJob(tx, jobId);
+    const billing = this.readBilling(job);
+    if (billing?.status !== 'RESERVED') {
+      this.logger.warn(`⚠️ Job ${jobId} processed ${personas} personas without a reservation; not charged`);
+      return;
+    }
+
+    const reserved = new Prisma.Decimal(billing.reserved);
+    const cost = Prisma.Decimal.min(new Prisma.Decimal(billing.costPerPersona).mul(personas).toDecimalPlaces(2), reserved);
+
+    if (cost.greaterThan(0)) {
+      const entry = { userId: job.user_id, groupId: billing.groupId, groupUserId: billing.groupUserId, amount: cost };
+      await tx.transactions.create({
+        data: { ...entry, type: 'ADD', description: `Released reservation of ${personas} personas for simulation job ${jobId}` },
+      });
+      await tx.transactions.create({
+        data: { ...entry, type: 'MINES', description: `Charged ${personas} personas for simulation job ${jobId}` },
+      });
+    }
+
+    await this.writeBilling(tx, job, {
+      ...billing,
+      reserved: reserved.minus(cost).toFixed(2),
+      charged: new Prisma.Decimal(billing.charged).plus(cost).toFixed(2),
+      personasCharged: billing.personasCharged + personas,
+    });
+  }
+
+  /**
+   * Refunds what is still reserved once a job reaches a status in
+   * RELEASE_STATUSES. Runs inside the caller's transaction so the refund
+   * commits together with the status change.
+   */
+  async releaseOnTransition(tx: Prisma.TransactionClient, jobId: string, to: JobStatus, reason: string): Promise<void> {
+    if (!this.enabled || !RELEASE_STATUSES.includes(to)) {
+      return;
+    }
+
+    const job = await this.lockJob(tx, jobId);
+    const billing = this.readBilling(job);
+    if (billing?.status !== 'RESERVED') {
+      return;
+    }
+
+    const refund = new Prisma.Decimal(billing.reserved);
+    if (refund.greaterThan(0)) {
+      await tx.groupUser.update({
+        where: { id: billing.groupUserId },
+        data: { budget: { increment: refund } },
+      });
+      await tx.transactions.create({
+        data: {
+          userId: job.user_id,
+          groupId: billing.groupId,
+          groupUserId: billing.groupUserId,
+          amount: refund,
+          type: 'ADD',
+          description: `Refund of unused reservation for simulation job ${jobId} (${to}: ${reason})`,
+        },
+      });
+    }
+
+    await this.writeBilling(tx, job, { ...billing, status: 'RELEASED', reserved: '0.00' });
+    this.logger.info(`💳 Job ${jobId} ${to}: charged ${billing.charged}, refunded ${refund.toFixed(2)}`);
+  }
+
+  /**
+   * Personas of the job without saved responses. The persona set is the
+   * job's selection, else its simulation's, else (random selection not yet
+   * drawn) `persona_count`.
+   */
+  private async unansweredPersonas(tx: Prisma.TransactionClient, job: JobRow): Promise<number> {
+    const [simulation] = await tx.$queryRaw<Array<{ selected_persona_ids: number[]; answered: number }>>`
+      SELECT s.selected_persona_ids,
+        (SELECT COUNT(DISTINCT r.persona_id) FROM survey_responses r WHERE r.simulation_id = s.simulation_id)::int AS answered
+      FROM simulations s
+      WHERE s.queue_job_id = ${job.job_id}
+      LIMIT 1
+    `;
+
+    const total = job.selected_persona_ids.length
+      || simulation?.selected_persona_ids.length
+      || job.persona_count;
+    return Math.max(total - (simulation?.answered ?? 0), 0);
+  }
+
+  private async lockJob(tx: Prisma.TransactionClient, jobId: string): Promise<JobRow> {
+    const [job] = await tx.$queryRaw<JobRow[]>`
+      SELECT job_id, user_id, survey_id, persona_count, selected_persona_ids, metadata
+      FROM simulation_queue_jobs
+      WHERE job_id = ${jobId}
+      FOR UPDATE
+    `;
+    if (!job) {
+      throw new NotFoundError(`Queue job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private readBilling(job: JobRow): JobBilling | undefined {
+    const metadata = job.metadata as Record<string, unknown> | null;
+    return metadata?.billing as JobBilling | undefined;
+  }
+
+  private async writeBilling(tx: Prisma.TransactionClient, job: JobRow, billing: JobBilling): Promise<void> {
+    const metadata = (job.metadata ?? {}) as Prisma.JsonObject;
+    await tx.simulation_queue_jobs.update({
+      where: { job_id: job.job_id },
+      data: { metadata: { ...metadata, billing: { ...billing } } },
+    });
+  }
+}
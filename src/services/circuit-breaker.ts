@@ -0,0 +1,70 @@
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open the first time; doubles on every reopen. */
+  resetTimeoutMs: number;
+  maxResetTimeoutMs: number;
+}
+
+/**
+ * Guards reconnection attempts. CLOSED lets attempts through and counts
+ * failures; after `failureThreshold` in a row the circuit OPENs and refuses
+ * attempts until its reset timeout passes. It then goes HALF_OPEN and lets a
+ * single probe through: success closes it, failure reopens it for twice as
+ * long (up to `maxResetTimeoutMs`).
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'CLOSED';
+  private failures: number = 0;
+  private reopenCount: number = 0;
+  private openUntil: Date | null = null;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  /** Whether an attempt may run now. Moves OPEN to HALF_OPEN once the timeout has passed. */
+  allowAttempt(now: Date = new Date()): boolean {
+    if (this.state === 'OPEN' && this.openUntil && now >= this.openUntil) {
+      this.state = 'HALF_OPEN';
+    }
+    return this.state !== 'OPEN';
+  }
+
+  recordSuccess(): void {
+    this.state = 'CLOSED';
+    this.failures = 0;
+    this.reopenCount = 0;
+    this.openUntil = null;
+  }
+
+  recordFailure(now: Date = new Date()): void {
+    this.failures++;
+
+    if (this.state === 'HALF_OPEN' || this.failures >= this.options.failureThreshold) {
+      const timeoutMs = Math.min(
+        this.options.resetTimeoutMs * Math.pow(2, this.reopenCount),
+        this.options.maxResetTimeoutMs,
+      );
+      this.reopenCount++;
+      this.state = 'OPEN';
+      this.openUntil = new Date(now.getTime() + timeoutMs);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getFailures(): number {
+    return this.failures;
+  }
+
+  /** When an OPEN circuit lets the next probe through. */
+  getOpenUntil(): Date | null {
+    return this.state === 'OPEN' ? this.openUntil : null;
+  }
+}
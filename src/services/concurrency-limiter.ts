@@ -0,0 +1,87 @@
+/**
+ * Caps how many tasks run at once. The limit adapts to backpressure:
+ * `decrease()` halves it (e.g. when the generator reports a rate limit) and
+ * every `limit` consecutive successes raise it by one, back up to `max`.
+ */
+export class ConcurrencyLimiter {
+  private max: number;
+  private limit: number;
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+  private successStreak: number = 0;
+
+  constructor(max: number) {
+    this.max = Math.max(1, max);
+    this.limit = this.max;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.limit >= this.max) {
+      return;
+    }
+
+    this.successStreak++;
+    if (this.successStreak >= this.limit) {
+      this.successStreak = 0;
+      this.limit++;
+      this.dispatch();
+    }
+  }
+
+  /** Halves the limit; returns the new limit. Tasks already running finish as usual. */
+  decrease(): number {
+    this.successStreak = 0;
+    this.limit = Math.max(1, Math.floor(this.limit / 2));
+    return this.limit;
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  getMax(): number {
+    return this.max;
+  }
+
+  getActive(): number {
+    return this.active;
+  }
+
+  getWaiting(): number {
+    return this.waiting.length;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      this.waiting.shift()!();
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import { readFileSync } from 'fs';
+import * as cron from 'node-cron';
+import { ConfigError } from '../errors';
+
+export interface TaskSchedule {
+  name: string;
+  cron: string;
+  enabled: boolean;
+  timezone: string;
+  /** A tick waits a random 0..jitterSeconds before running, to spread instances apart. */
+  jitterSeconds: number;
+  /** What a tick does while the previous run is still in progress. */
+  overlap: OverlapPolicy;
+  timeoutSeconds: number;
+}
+
+/**
+ * `skip` drops the tick. `queue` runs once more as soon as the current run
+ * ends; further ticks while one is queued are coalesced into it.
+ */
+export type OverlapPolicy = 'skip' | 'queue';
+
+type ScheduleOverrides = Partial<Omit<TaskSchedule, 'name'>>;
+
+const SCHEDULE_KEYS = ['cron', 'enabled', 'timezone', 'jitterSeconds', 'overlap', 'timeoutSeconds'];
+const OVERLAP_POLICIES: OverlapPolicy[] = ['skip', 'queue'];
+const MAX_JITTER_SECONDS = 3600;
+const DEFAULT_TIMEOUT_SECONDS = 900;
+const MAX_TIMEOUT_SECONDS = 86400;
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// node-cron also accepts a leading seconds field
+const SECOND_FIELD: CronField = { name: 'second', min: 0, max: 59 };
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+export const DEFAULT_SCHEDULES: Record<string, string> = {
+  recovery: '*/15 * * * *',
+  cleanup: '0 * * * *',
+  health: '*/2 * * * *',
+  'failed-recovery': '*/30 * * * *',
+  'stuck-recovery': '*/20 * * * *',
+  'queue-positions': '* * * * *',
+};
+
+/**
+ * Builds the schedule of every cron task from, in increasing precedence:
+ * the defaults above (or the legacy interval variables), the JSON file named
+ * by CRON_CONFIG_FILE, and per-task
+ * environment variables (`CRON_<TASK>_SCHEDULE`, `_ENABLED`, `_TIMEZONE`,
+ * `_JITTER_SECONDS`, `_OVERLAP`, `_TIMEOUT_SECONDS`, where TASK is the task name upper-cased with `-` as `_`).
+ * Every problem found is reported at once in a single ConfigError.
+ *
+ * The JSON file maps task names to partial schedules:
+ *   { "timezone": "UTC", "tasks": { "cleanup": { "cron": "0 3 * * *", "jitterSeconds": 60 } } }
+ */
+export function loadCronSchedules(env: NodeJS.ProcessEnv = process.env): TaskSchedule[] {
+  const errors: string[] = [];
+  const file = env.CRON_CONFIG_FILE ? readScheduleFile(env.CRON_CONFIG_FILE, errors) : {};
+  const defaultTimezone = env.CRON_TIMEZONE || file.timezone || 'UTC';
+
+  const schedules = Object.keys(DEFAULT_SCHEDULES).map((name) => {
+    const schedule: TaskSchedule = {
+      name,
+      cron: legacySchedule(name, env, errors) ?? DEFAULT_SCHEDULES[name],
+      enabled: true,
+      timezone: defaultTimezone,
+      jitterSeconds: 0,
+      overlap: 'skip',
+      timeoutSeconds: DEFAULT_TIMEOUT_SECONDS,
+    };
+    return { ...schedule, ...file.tasks?.[name], ...envOverrides(name, env, errors) };
+  });
+
+  for (const name of Object.keys(file.tasks ?? {})) {
+    if (!(name in DEFAULT_SCHEDULES)) {
+      errors.push(`${env.CRON_CONFIG_FILE}: unknown task "${name}"`);
+    }
+  }
+
+  for (const schedule of schedules) {
+    validateSchedule(schedule, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid cron schedule configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return schedules;
+}
+
+function readScheduleFile(
+  path: string,
+  errors: string[],
+): { timezone?: string; tasks?: Record<string, ScheduleOverrides> } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    errors.push(`${path}: ${error instanceof Error ? error.message : 'unreadable'}`);
+    return {};
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    errors.push(`${path}: expected a JSON object`);
+    return {};
+  }
+
+  const { tasks = {} } = parsed as Record<string, unknown>;
+  if (typeof tasks !== 'object' || tasks === null || Array.isArray(tasks)) {
+    errors.push(`${path}: "tasks" must be an object`);
+    return {};
+  }
+
+  for (const [name, overrides] of Object.entries(tasks)) {
+    if (typeof overrides !== 'object' || overrides === null) {
+      errors.push(`${path}: task "${name}" must be an object`);
+      continue;
+    }
+    for (const key of Object.keys(overrides)) {
+      if (!SCHEDULE_KEYS.includes(key)) {
+        errors.push(`${path}: task "${name}" has unknown key "${key}"`);
+      }
+    }
+  }
+
+  return parsed as { timezone?: string; tasks?: Record<string, ScheduleOverrides> };
+}
+
+function envOverrides(name: string, env: NodeJS.ProcessEnv, errors: string[]): ScheduleOverrides {
+  const prefix = `CRON_${name.toUpperCase().replace(/-/g, '_')}_`;
+  const overrides: ScheduleOverrides = {};
+
+  const schedule = env[`${prefix}SCHEDULE`];
+  if (schedule !== undefined) {
+    overrides.cron = schedule;
+  }
+
+  const enabled = env[`${prefix}ENABLED`];
+  if (enabled !== undefined) {
+    if (enabled !== 'true' && enabled !== 'false') {
+      errors.push(`${prefix}ENABLED must be "true" or "false", got "${enabled}"`);
+    }
+    overrides.enabled = enabled !== 'false';
+  }
+
+  const timezone = env[`${prefix}TIMEZONE`];
+  if (timezone !== undefined) {
+    overrides.timezone = timezone;
+  }
+
+  const jitter = env[`${prefix}JITTER_SECONDS`];
+  if (jitter !== undefined) {
+    overrides.jitterSeconds = Number(jitter);
+  }
+
+  const overlap = env[`${prefix}OVERLAP`];
+  if (overlap !== undefined) {
+    overrides.overlap = overlap as OverlapPolicy;
+  }
+
+  const timeout = env[`${prefix}TIMEOUT_SECONDS`];
+  if (timeout !== undefined) {
+    overrides.timeoutSeconds = Number(timeout);
+  }
+
+  return overrides;
+}
+
+/**
+ * RECOVERY_INTERVAL_MINUTES and CLEANUP_INTERVAL_HOURS predate full cron
+ * expressions. They are still honoured, but only for intervals that divide
+ * the hour (or day) evenly, since a cron step restarts every hour (or day).
+ */
+function legacySchedule(name: string, env: NodeJS.ProcessEnv, errors: string[]): string | undefined {
+  if (name === 'recovery' && env.RECOVERY_INTERVAL_MINUTES) {
+    const minutes = Number(env.RECOVERY_INTERVAL_MINUTES);
+    if (!Number.isInteger(minutes) || minutes < 1 || 60 % minutes !== 0) {
+      errors.push(`RECOVERY_INTERVAL_MINUTES must divide 60 evenly, got "${env.RECOVERY_INTERVAL_MINUTES}"; use CRON_RECOVERY_SCHEDULE instead`);
+      return undefined;
+    }
+    return `*/${minutes} * * * *`;
+  }
+
+  if (name === 'cleanup' && env.CLEANUP_INTERVAL_HOURS) {
+    const hours = Number(env.CLEANUP_INTERVAL_HOURS);
+    if (!Number.isInteger(hours) || hours < 1 || 24 % hours !== 0) {
+      errors.push(`CLEANUP_INTERVAL_HOURS must divide 24 evenly, got "${env.CLEANUP_INTERVAL_HOURS}"; use CRON_CLEANUP_SCHEDULE instead`);
+      return undefined;
+    }
+    return `0 */${hours} * * *`;
+  }
+
+  return undefined;
+}
+
+function validateSchedule(schedule: TaskSchedule, errors: string[]): void {
+  const label = `task "${schedule.name}"`;
+
+  if (typeof schedule.cron !== 'string' || !cron.validate(schedule.cron)) {
+    errors.push(`${label}: invalid cron expression "${schedule.cron}"`);
+  } else {
+    for (const problem of cronFieldProblems(schedule.cron)) {
+      errors.push(`${label}: invalid cron expression "${schedule.cron}": ${problem}`);
+    }
+  }
+
+  if (typeof schedule.enabled !== 'boolean') {
+    errors.push(`${label}: enabled must be a boolean`);
+  }
+
+  if (!isValidTimezone(schedule.timezone)) {
+    errors.push(`${label}: unknown timezone "${schedule.timezone}"`);
+  }
+
+  if (
+    typeof schedule.jitterSeconds !== 'number' ||
+    !Number.isInteger(schedule.jitterSeconds) ||
+    schedule.jitterSeconds < 0 ||
+    schedule.jitterSeconds > MAX_JITTER_SECONDS
+  ) {
+    errors.push(`${label}: jitterSeconds must be an integer between 0 and ${MAX_JITTER_SECONDS}, got "${schedule.jitterSeconds}"`);
+  }
+
+  if (!OVERLAP_POLICIES.includes(schedule.overlap)) {
+    errors.push(`${label}: overlap must be one of ${OVERLAP_POLICIES.join(', ')}, got "${schedule.overlap}"`);
+  }
+
+  if (
+    typeof schedule.timeoutSeconds !== 'number' ||
+    !Number.isInteger(schedule.timeoutSeconds) ||
+    schedule.timeoutSeconds < 1 ||
+    schedule.timeoutSeconds > MAX_TIMEOUT_SECONDS
+  ) {
+    errors.push(`${label}: timeoutSeconds must be an integer between 1 and ${MAX_TIMEOUT_SECONDS}, got "${schedule.timeoutSeconds}"`);
+  }
+}
+
+/**
+ * Range checks node-cron skips: it accepts steps and range bounds outside a
+ * field (e.g. a step of 61 minutes), which then never or always match.
+ */
+function cronFieldProblems(expression: string): string[] {
+  const values = expression.trim().split(/\s+/);
+  const fields = values.length === 6 ? [SECOND_FIELD, ...CRON_FIELDS] : CRON_FIELDS;
+  const problems: string[] = [];
+
+  values.forEach((value, index) => {
+    const field = fields[index];
+    for (const item of value.split(',')) {
+      const problem = cronItemProblem(item, field);
+      if (problem) {
+        problems.push(`${field.name} "${item}" ${problem}`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+function cronItemProblem(item: string, field: CronField): string | null {
+  const [range, step, ...rest] = item.split('/');
+  const span = `must be within ${field.min}-${field.max}`;
+
+  if (rest.length > 0) {
+    return 'has more than one step';
+  }
+
+  if (step !== undefined) {
+    const size = Number(step);
+    if (!/^\d+$/.test(step) || size < 1 || size > field.max - field.min + 1) {
+      return `has a step outside 1-${field.max - field.min + 1}`;
+    }
+  }
+
+  if (range === '*') {
+    return null;
+  }
+
+  const bounds = range.split('-').map((bound) => cronValue(bound, field));
+  if (bounds.length > 2 || bounds.some((bound) => bound === null)) {
+    return span;
+  }
+  if (bounds.length === 2 && bounds[0]! > bounds[1]!) {
+    return 'has a range that ends before it starts';
+  }
+  return null;
+}
+
+function cronValue(value: string, field: CronField): number | null {
+  if (/^\d+$/.test(value)) {
+    const number = Number(value);
+    return number >= field.min && number <= field.max ? number : null;
+  }
+
+  // Names: three-letter or full (`jan`, `January`), as node-cron accepts
+  const index = field.names?.findIndex((name) => value.toLowerCase().startsWith(name)) ?? -1;
+  return index >= 0 ? index + field.min : null;
+}
+
+function isValidTimezone(timezone: unknown): boolean {
+  if (typeof timezone !== 'string' || timezone.length === 0) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,16 +1,77 @@
 import * as cron from 'node-cron';
-import { RecoveryService } from './recovery.service';
+import { RecoveryService, RecoveryResult, RecoveryRunOptions } from './recovery.service';
 import { LoggerService } from './logger.service';
+import { MetricsService } from './metrics.service';
+import { LeaderElectionService } from './leader-election.service';
+import { FairShareScheduler } from './fair-share-scheduler';
+import { InvalidStateError, TaskTimeoutError } from '../errors';
+import { TaskSchedule } from './cron-schedule';
+import { CronConfig } from '../config';
+
+export type TaskRunOutcome = 'success' | 'failure' | 'timeout' | 'skipped';
+
+export interface TaskRunResult {
+  trigger: 'schedule' | 'manual';
+  outcome: TaskRunOutcome;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  success: boolean;
+  result?: RecoveryResult | boolean;
+  error?: string;
+}
+
+export interface TaskStatus {
+  enabled: boolean;
+  scheduled: boolean;
+  /** A run is in progress, possibly one that already timed out and is winding down. */
+  running: boolean;
+  queued: boolean;
+  lastRun?: TaskRunResult;
+}
 
 export class CronService {
   private recoveryService: RecoveryService;
+  private scheduler: FairShareScheduler;
   private logger: LoggerService;
+  private metrics: MetricsService;
+  private leaderElection: LeaderElectionService;
   private tasks: Map<string, cron.ScheduledTask> = new Map();
+  private handlers: Map<string, (options: RecoveryRunOptions) => Promise<RecoveryResult | boolean | void>> = new Map();
+  private history: Map<string, TaskRunResult[]> = new Map();
+  private inProgress: Set<string> = new Set();
+  private queued: Set<string> = new Set();
+  private schedules: TaskSchedule[];
+  private historySize: number;
   private isRunning: boolean = false;
 
-  constructor(recoveryService: RecoveryService, logger: LoggerService) {
+  // Tasks that mutate shared state and must only run on the elected leader
+  private static readonly LEADER_ONLY_TASKS = new Set(['recovery', 'cleanup', 'failed-recovery', 'stuck-recovery', 'queue-positions']);
+
+  constructor(
+    recoveryService: RecoveryService,
+    scheduler: FairShareScheduler,
+    logger: LoggerService,
+    metrics: MetricsService,
+    leaderElection: LeaderElectionService,
+    config: CronConfig,
+  ) {
     this.recoveryService = recoveryService;
+    this.scheduler = scheduler;
     this.logger = logger;
+    this.metrics = metrics;
+    this.leaderElection = leaderElection;
+    this.schedules = config.schedules;
+    this.historySize = config.historySize;
+
+    this.handlers.set('recovery', (options) => this.recoveryService.checkAndRecoverIncompleteSimulations(options));
+    this.handlers.set('cleanup', (options) => this.recoveryService.cleanupOldJobs(options));
+    this.handlers.set('health', () => this.recoveryService.healthCheck());
+    this.handlers.set('failed-recovery', (options) => this.recoveryService.checkAndRecoverFailedSimulations(options));
+    this.handlers.set('stuck-recovery', (options) => this.recoveryService.checkAndRecoverStuckSimulations(options));
+    this.handlers.set('queue-positions', async (options) => {
+      await this.scheduler.updateQueuePositions(options);
+    });
   }
 
   async start(): Promise<void> {
@@ -20,90 +81,24 @@ export class CronService {
     }
 
     try {
-      // Recovery check every 15 minutes (reduced frequency to prevent loops)
-      const recoveryInterval = process.env.RECOVERY_INTERVAL_MINUTES || '15';
-      const recoveryCron = `*/${recoveryInterval} * * * *`;
-      
-      const recoveryTask = cron.schedule(recoveryCron, async () => {
-        this.logger.info('🔄 Running scheduled recovery check...');
-        try {
-          await this.recoveryService.checkAndRecoverIncompleteSimulations();
-        } catch (error) {
-          this.logger.error('❌ Scheduled recovery check failed:', error);
-        }
-      }, {
-        scheduled: false,
-        timezone: 'UTC'
-      });
-
-      this.tasks.set('recovery', recoveryTask);
-
-      // Cleanup old jobs every hour
-      const cleanupInterval = process.env.CLEANUP_INTERVAL_HOURS || '1';
-      const cleanupCron = `0 */${cleanupInterval} * * *`;
-      
-      const cleanupTask = cron.schedule(cleanupCron, async () => {
-        this.logger.info('🧹 Running scheduled cleanup...');
-        try {
-          await this.recoveryService.cleanupOldJobs();
-        } catch (error) {
-          this.logger.error('❌ Scheduled cleanup failed:', error);
+      for (const schedule of this.schedules) {
+        if (!schedule.enabled) {
+          this.logger.info(`⏸️ Cron task ${schedule.name} is disabled`);
+          continue;
         }
-      }, {
-        scheduled: false,
-        timezone: 'UTC'
-      });
 
-      this.tasks.set('cleanup', cleanupTask);
-
-      // Health check every 2 minutes
-      const healthTask = cron.schedule('*/2 * * * *', async () => {
-        try {
-          await this.recoveryService.healthCheck();
-        } catch (error) {
-          this.logger.error('❌ Health check failed:', error);
-        }
-      }, {
-        scheduled: false,
-        timezone: 'UTC'
-      });
-
-      this.tasks.set('health', healthTask);
-
-      // Failed simulation recovery every 30 minutes (reduced frequency)
-      const failedRecoveryTask = cron.schedule('*/30 * * * *', async () => {
-        this.logger.info('🔄 Running failed simulation recovery...');
-        try {
-          await this.recoveryService.checkAndRecoverFailedSimulations();
-        } catch (error) {
-          this.logger.error('❌ Failed simulation recovery failed:', error);
-        }
-      }, {
-        scheduled: false,
-        timezone: 'UTC'
-      });
-
-      this.tasks.set('failed-recovery', failedRecoveryTask);
-
-      // Stuck simulation recovery every 20 minutes (reduced frequency)
-      const stuckRecoveryTask = cron.schedule('*/20 * * * *', async () => {
-        this.logger.info('🔄 Running stuck simulation recovery...');
-        try {
-          await this.recoveryService.checkAndRecoverStuckSimulations();
-        } catch (error) {
-          this.logger.error('❌ Stuck simulation recovery failed:', error);
-        }
-      }, {
-        scheduled: false,
-        timezone: 'UTC'
-      });
-
-      this.tasks.set('stuck-recovery', stuckRecoveryTask);
+        const task = cron.schedule(schedule.cron, () => this.runScheduled(schedule), {
+          scheduled: false,
+          timezone: schedule.timezone,
+        });
+        this.tasks.set(schedule.name, task);
+      }
 
       // Start all tasks
       this.tasks.forEach((task, name) => {
         task.start();
-        this.logger.info(`✅ Started cron task: ${name}`);
+        const schedule = this.getSchedule(name)!;
+        this.logger.info(`✅ Started cron task: ${name} (${schedule.cron} ${schedule.timezone})`);
       });
 
       this.isRunning = true;
@@ -128,6 +123,7 @@ export class CronService {
       });
 
       this.tasks.clear();
+      this.queued.clear();
       this.isRunning = false;
       this.logger.info('✅ All cron tasks stopped successfully');
 
@@ -137,14 +133,232 @@ export class CronService {
     }
   }
 
-  getTaskStatus(): { [key: string]: boolean } {
-    const status: { [key: string]: boolean } = {};
-    this.tasks.forEach((task, name) => {
-      status[name] = this.isRunning;
+  /**
+   * Runs a task immediately, outside its schedule, and records the outcome
+   * in the task's run history. `options.dryRun` overrides DRY_RUN for this run.
+   */
+  async runTask(name: string, options: RecoveryRunOptions = {}): Promise<TaskRunResult> {
+    this.assertCanRun(name, options);
+    return await this.execute(name, options, 'manual');
+  }
+
+  /** Throws when `runTask(name, options)` would be refused right now. */
+  assertCanRun(name: string, options: RecoveryRunOptions = {}): void {
+    if (!this.handlers.has(name)) {
+      throw new Error(`Unknown cron task: ${name}`);
+    }
+
+    // Dry runs write nothing, so they may run on followers too
+    if (!options.dryRun && !this.canRunHere(name)) {
+      throw new InvalidStateError(`Task ${name} only runs on the leader instance`);
+    }
+
+    if (this.inProgress.has(name)) {
+      throw new InvalidStateError(`Task ${name} is already running`);
+    }
+  }
+
+  private async runScheduled(schedule: TaskSchedule): Promise<void> {
+    if (schedule.jitterSeconds > 0) {
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * schedule.jitterSeconds * 1000));
+      if (!this.isRunning) return;
+    }
+
+    if (!this.shouldRun(schedule.name)) return;
+
+    if (this.inProgress.has(schedule.name)) {
+      if (schedule.overlap === 'queue') {
+        if (!this.queued.has(schedule.name)) {
+          this.queued.add(schedule.name);
+          this.logger.info(`⏳ ${schedule.name} is still running; queued the next run`);
+        }
+      } else {
+        this.recordRun(schedule.name, this.finishRun('schedule', 'skipped', new Date(), {
+          error: 'Previous run still in progress',
+        }));
+        this.logger.warn(`⏭️ Skipping ${schedule.name}: previous run still in progress`);
+      }
+      return;
+    }
+
+    this.logger.debug(`⏰ Running scheduled ${schedule.name}...`);
+
+    try {
+      await this.execute(schedule.name, {}, 'schedule');
+    } catch (error) {
+      this.logger.error(`❌ Scheduled ${schedule.name} failed:`, error);
+    }
+  }
+
+  /**
+   * Runs the handler under the task's time limit. On timeout the run is
+   * recorded as such and its signal aborted, but the task stays in progress
+   * (blocking overlapping runs) until the handler actually returns.
+   */
+  private async execute(name: string, options: RecoveryRunOptions, trigger: TaskRunResult['trigger']): Promise<TaskRunResult> {
+    const handler = this.handlers.get(name)!;
+    const timeoutSeconds = this.getSchedule(name)!.timeoutSeconds;
+    const controller = new AbortController();
+    const startedAt = new Date();
+    let timer: NodeJS.Timeout | undefined;
+
+    this.inProgress.add(name);
+    const pending = handler({ ...options, signal: controller.signal });
+    pending
+      .catch(() => undefined)
+      .finally(() => {
+        this.inProgress.delete(name);
+        this.runQueued(name);
+      });
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new TaskTimeoutError(name, timeoutSeconds)), timeoutSeconds * 1000);
+    });
+
+    try {
+      const result = await Promise.race([pending, timeout]);
+      const success = typeof result === 'boolean' ? result : result?.status !== 'UNHEALTHY';
+      const run = this.finishRun(trigger, success ? 'success' : 'failure', startedAt, {
+        result: result ?? undefined,
+      });
+      this.recordRun(name, run);
+      return run;
+    } catch (error) {
+      const timedOut = error instanceof TaskTimeoutError;
+      if (timedOut) {
+        controller.abort();
+        this.logger.warn(`⌛ ${error.message}; it will stop after its current step`);
+      }
+      this.recordRun(name, this.finishRun(trigger, timedOut ? 'timeout' : 'failure', startedAt, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private runQueued(name: string): void {
+    if (!this.queued.delete(name) || !this.isRunning) {
+      return;
+    }
+    // Leadership may have moved on while the previous run was in progress
+    if (!this.shouldRun(name)) {
+      return;
+    }
+
+    this.logger.debug(`⏰ Running queued ${name}...`);
+    this.execute(name, {}, 'schedule').catch((error) => {
+      this.logger.error(`❌ Queued ${name} failed:`, error);
+    });
+  }
+
+  private finishRun(
+    trigger: TaskRunResult['trigger'],
+    outcome: TaskRunOutcome,
+    startedAt: Date,
+    details: Pick<TaskRunResult, 'result' | 'error'>,
+  ): TaskRunResult {
+    const finishedAt = new Date();
+    return {
+      trigger,
+      outcome,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      success: outcome === 'success',
+      ...details,
+    };
+  }
+
+  private recordRun(name: string, run: TaskRunResult): void {
+    const runs = this.history.get(name) ?? [];
+    runs.unshift(run);
+    runs.splice(this.historySize);
+    this.history.set(name, runs);
+
+    this.metrics.incrementCounter('twinquest_cron_task_runs_total', { task: name, outcome: run.outcome });
+    if (run.outcome === 'skipped') {
+      return;
+    }
+
+    this.metrics.observe('twinquest_cron_task_duration_seconds', { task: name }, run.durationMs / 1000);
+
+    if (run.success) {
+      this.metrics.setGauge('twinquest_cron_task_last_success_timestamp_seconds', { task: name }, Math.floor(run.finishedAt.getTime() / 1000));
+    }
+
+    // Dry runs change nothing, so they don't count as recoveries
+    if (run.result && typeof run.result === 'object' && !run.result.dryRun) {
+      this.metrics.incrementCounter('twinquest_simulations_recovered_total', { task: name }, run.result.recovered);
+      this.metrics.incrementCounter('twinquest_simulations_recovery_failed_total', { task: name }, run.result.failed);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leaderElection.isLeader();
+  }
+
+  canRunHere(name: string): boolean {
+    return !CronService.LEADER_ONLY_TASKS.has(name) || this.leaderElection.isLeader();
+  }
+
+  private shouldRun(name: string): boolean {
+    if (this.canRunHere(name)) {
+      return true;
+    }
+
+    this.logger.debug(`⏭️ Skipping ${name}: this instance is not the leader`);
+    return false;
+  }
+
+  getSchedules(): TaskSchedule[] {
+    return this.schedules.map((schedule) => ({ ...schedule }));
+  }
+
+  private getSchedule(name: string): TaskSchedule | undefined {
+    return this.schedules.find((schedule) => schedule.name === name);
+  }
+
+  getTaskNames(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  hasTask(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  getTaskStatus(): { [key: string]: TaskStatus } {
+    const status: { [key: string]: TaskStatus } = {};
+    this.schedules.forEach((schedule) => {
+      status[schedule.name] = {
+        enabled: schedule.enabled,
+        scheduled: this.isRunning && this.tasks.has(schedule.name),
+        running: this.inProgress.has(schedule.name),
+        queued: this.queued.has(schedule.name),
+        lastRun: this.history.get(schedule.name)?.[0],
+      };
     });
     return status;
   }
 
+  /** Last run of each task that actually ran (skipped ticks are left out). */
+  getLastResults(): { [key: string]: TaskRunResult } {
+    const results: { [key: string]: TaskRunResult } = {};
+    this.history.forEach((runs, name) => {
+      const last = runs.find((run) => run.outcome !== 'skipped');
+      if (last) {
+        results[name] = last;
+      }
+    });
+    return results;
+  }
+
+  /** Recent runs of a task, newest first, capped at CRON_HISTORY_SIZE. */
+  getRunHistory(name: string): TaskRunResult[] {
+    return [...(this.history.get(name) ?? [])];
+  }
+
   isServiceRunning(): boolean {
     return this.isRunning;
   }
@@ -1,26 +1,66 @@
 import { PrismaClient } from '@prisma/client';
 import { LoggerService } from './logger.service';
+import { DatabaseConfig } from '../config';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+import { DatabaseUnavailableError, InvalidStateError, LeaseLostError, NotFoundError } from '../errors';
+
+export interface DatabaseStats {
+  operationRetries: number;
+  reconnectSuccesses: number;
+  reconnectFailures: number;
+}
+
+export type ConnectionState = 'CONNECTED' | 'RECONNECTING' | 'DISCONNECTED';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  /** When the next reconnect attempt is scheduled, if one is. */
+  nextAttemptAt: Date | null;
+}
+
+export interface ConnectionEvent extends ConnectionStatus {
+  previous: ConnectionState;
+  error?: string;
+}
+
+type ConnectionListener = (event: ConnectionEvent) => void;
 
 export class DatabaseService {
   private prisma: PrismaClient;
   private logger: LoggerService;
-  private isConnected: boolean = false;
-  private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 10;
-  private reconnectDelay: number = 5000; // 5 seconds
-
-  constructor() {
-    this.logger = new LoggerService();
-    this.prisma = new PrismaClient({
-      log: ['error', 'warn'],
+  private config: DatabaseConfig;
+  private state: ConnectionState = 'DISCONNECTED';
+  private breaker: CircuitBreaker;
+  private reconnecting: Promise<boolean> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private nextAttemptAt: Date | null = null;
+  private closed: boolean = false;
+  private listeners: ConnectionListener[] = [];
+  private stats: DatabaseStats = {
+    operationRetries: 0,
+    reconnectSuccesses: 0,
+    reconnectFailures: 0,
+  };
+
+  constructor(config: DatabaseConfig, logger: LoggerService) {
+    this.config = config;
+    this.logger = logger;
+    this.breaker = new CircuitBreaker({
+      failureThreshold: config.circuitFailureThreshold,
+      resetTimeoutMs: config.circuitResetMs,
+      maxResetTimeoutMs: config.circuitMaxResetMs,
     });
+    this.prisma = this.createClient();
   }
 
   async connect(): Promise<void> {
     try {
+      this.closed = false;
       await this.prisma.$connect();
-      this.isConnected = true;
-      this.reconnectAttempts = 0;
+      this.breaker.recordSuccess();
+      this.setState('CONNECTED');
       this.logger.info('Database connection established');
     } catch (error) {
       this.logger.error('Failed to connect to database:', error);
@@ -28,50 +68,101 @@ export class DatabaseService {
     }
   }
 
-  async reconnect(): Promise<boolean> {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.logger.error(`Max reconnection attempts (${this.maxReconnectAttempts}) reached. Giving up.`);
-      return false;
+  /**
+   * Replaces the Prisma client with a fresh, connected one. Only one
+   * reconnect runs at a time: concurrent callers share the in-flight attempt.
+   * Resolves false without touching the database while the circuit is open.
+   * A failed attempt schedules the next one in the background, so retries
+   * continue (backed off) until the connection is back.
+   */
+  reconnect(): Promise<boolean> {
+    if (this.reconnecting) {
+      return this.reconnecting;
     }
 
-    this.reconnectAttempts++;
-    this.logger.warn(`Attempting to reconnect to database (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
+    if (this.closed || !this.breaker.allowAttempt()) {
+      return Promise.resolve(false);
+    }
 
-    try {
-      // Close existing connection if any
-      if (this.isConnected) {
-        await this.prisma.$disconnect();
-      }
+    this.clearReconnectTimer();
+    this.reconnecting = this.attemptReconnect().finally(() => {
+      this.reconnecting = null;
+    });
+    return this.reconnecting;
+  }
 
-      // Create new Prisma client
-      this.prisma = new PrismaClient({
-        log: ['error', 'warn'],
-      });
+  private async attemptReconnect(): Promise<boolean> {
+    const attempt = this.breaker.getFailures() + 1;
+    this.setState('RECONNECTING');
+    this.logger.warn(`Attempting to reconnect to database (attempt ${attempt}, circuit ${this.breaker.getState()})...`);
 
-      // Attempt to connect
+    const previous = this.prisma;
+    this.prisma = this.createClient();
+    await previous.$disconnect().catch(() => undefined);
+
+    try {
       await this.prisma.$connect();
-      this.isConnected = true;
-      this.reconnectAttempts = 0;
+      await this.prisma.$queryRaw`SELECT 1`;
+      this.breaker.recordSuccess();
+      this.stats.reconnectSuccesses++;
+      this.setState('CONNECTED');
       this.logger.info('✅ Database reconnected successfully');
       return true;
     } catch (error) {
-      this.isConnected = false;
-      this.logger.error(`Reconnection attempt ${this.reconnectAttempts} failed:`, error);
-      
-      if (this.reconnectAttempts < this.maxReconnectAttempts) {
-        this.logger.info(`Retrying in ${this.reconnectDelay}ms...`);
-        await this.delay(this.reconnectDelay);
-        return this.reconnect();
-      }
-      
+      this.breaker.recordFailure();
+      this.stats.reconnectFailures++;
+      this.logger.error(`Reconnection attempt ${attempt} failed:`, error);
+      this.scheduleReconnect();
+      this.setState('DISCONNECTED', error);
       return false;
     }
   }
 
+  /** Schedules the next background attempt: after the reset timeout while open, else after the reconnect delay. */
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    const openUntil = this.breaker.getOpenUntil();
+    const delayMs = openUntil ? Math.max(openUntil.getTime() - Date.now(), 0) : this.config.reconnectDelayMs;
+    this.nextAttemptAt = new Date(Date.now() + delayMs);
+    this.logger.info(`Next database reconnect attempt in ${delayMs}ms${openUntil ? ' (circuit open)' : ''}`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.nextAttemptAt = null;
+      void this.reconnect();
+    }, delayMs);
+    // Don't keep a finished process (e.g. the CLI) alive just to reconnect
+    this.reconnectTimer.unref();
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.nextAttemptAt = null;
+  }
+
+  /** Marks the connection lost and starts reconnecting in the background. */
+  private markDisconnected(error?: unknown): void {
+    if (this.state === 'CONNECTED') {
+      this.setState('DISCONNECTED', error);
+    }
+    if (!this.reconnecting) {
+      void this.reconnect();
+    }
+  }
+
   async disconnect(): Promise<void> {
+    this.closed = true;
+    this.clearReconnectTimer();
+
     try {
       await this.prisma.$disconnect();
-      this.isConnected = false;
+      this.setState('DISCONNECTED');
       this.logger.info('Database connection closed');
     } catch (error) {
       this.logger.error('Error disconnecting from database:', error);
@@ -79,66 +170,124 @@ export class DatabaseService {
     }
   }
 
+  onConnectionStateChange(listener: ConnectionListener): void {
+    this.listeners.push(listener);
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return {
+      state: this.state,
+      circuit: this.breaker.getState(),
+      consecutiveFailures: this.breaker.getFailures(),
+      nextAttemptAt: this.nextAttemptAt,
+    };
+  }
+
+  private setState(state: ConnectionState, error?: unknown): void {
+    if (this.state === state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+    const event: ConnectionEvent = {
+      ...this.getConnectionStatus(),
+      previous,
+      ...(error ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    };
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (listenerError) {
+        this.logger.error('❌ Connection state listener failed:', listenerError);
+      }
+    });
+  }
+
+  private createClient(): PrismaClient {
+    return new PrismaClient({
+      datasourceUrl: this.config.url,
+      log: ['error', 'warn'],
+    });
+  }
+
+  /**
+   * The current Prisma client. Reconnecting replaces it, so operations run
+   * through executeWithRetry should use the client passed to them rather
+   * than one taken beforehand. Throws DatabaseUnavailableError, which
+   * executeWithRetry retries, while not connected.
+   */
   getClient(): PrismaClient {
-    if (!this.isConnected) {
-      throw new Error('Database not connected');
+    if (this.state !== 'CONNECTED') {
+      throw new DatabaseUnavailableError(this.nextAttemptAt ?? this.breaker.getOpenUntil());
     }
     return this.prisma;
   }
 
+  /**
+   * Pings the database. A failed ping starts a background reconnect; while
+   * one is in flight or the circuit is open the ping is skipped.
+   */
   async healthCheck(): Promise<boolean> {
+    if (this.state !== 'CONNECTED') {
+      if (!this.reconnecting && this.breaker.allowAttempt()) {
+        return await this.reconnect();
+      }
+      return false;
+    }
+
     try {
       await this.prisma.$queryRaw`SELECT 1`;
-      this.isConnected = true;
       return true;
     } catch (error) {
       this.logger.error('Database health check failed:', error);
-      this.isConnected = false;
+      this.markDisconnected(error);
       return false;
     }
   }
 
+  /** Runs `operation` with the current client, taken afresh on every attempt. */
   async executeWithRetry<T>(
-    operation: () => Promise<T>,
+    operation: (prisma: PrismaClient) => Promise<T>,
     maxRetries: number = 3,
     delayMs: number = 1000
   ): Promise<T> {
     let lastError: Error;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Check if we're still connected before attempting operation
-        if (!this.isConnected) {
-          this.logger.warn('Database not connected, attempting to reconnect...');
-          const reconnected = await this.reconnect();
-          if (!reconnected) {
-            throw new Error('Failed to reconnect to database');
-          }
-        }
+      // Wait for (or start) a reconnect before attempting the operation
+      if (this.state !== 'CONNECTED') {
+        await this.awaitConnection();
+      }
 
-        return await operation();
+      try {
+        return await operation(this.getClient());
       } catch (error) {
         lastError = error as Error;
         
         // Check if it's a connection error
         if (this.isConnectionError(error)) {
           this.logger.warn(`Database connection lost on attempt ${attempt}, attempting to reconnect...`);
-          this.isConnected = false;
-          const reconnected = await this.reconnect();
-          if (!reconnected) {
-            this.logger.error('Failed to reconnect to database');
-            throw new Error('Database connection lost and reconnection failed');
-          }
+          this.markDisconnected(error);
+          await this.awaitConnection();
           // Continue to next attempt after successful reconnection
+          this.stats.operationRetries++;
           continue;
         }
         
+        // Domain errors (not found, invalid state) won't go away on retry
+        if (error instanceof NotFoundError || error instanceof InvalidStateError || error instanceof LeaseLostError) {
+          throw error;
+        }
+
         if (attempt === maxRetries) {
           this.logger.error(`Operation failed after ${maxRetries} attempts:`, lastError);
           throw lastError;
         }
 
         this.logger.warn(`Operation attempt ${attempt} failed, retrying in ${delayMs}ms:`, error);
+        this.stats.operationRetries++;
         await this.delay(delayMs * attempt); // Exponential backoff
       }
     }
@@ -146,6 +295,16 @@ export class DatabaseService {
     throw lastError!;
   }
 
+  private async awaitConnection(): Promise<void> {
+    if (!(await this.reconnect())) {
+      throw new DatabaseUnavailableError(this.breaker.getOpenUntil());
+    }
+  }
+
+  getStats(): DatabaseStats {
+    return { ...this.stats };
+  }
+
   private isConnectionError(error: any): boolean {
     if (!error) return false;
     
@@ -154,6 +313,7 @@ export class DatabaseService {
     const errorKind = error.kind || '';
     
     return (
+      error instanceof DatabaseUnavailableError ||
       errorMessage.includes('connection') ||
       errorMessage.includes('timeout') ||
       errorMessage.includes('network') ||
@@ -0,0 +1,361 @@
+import { Prisma } from '@prisma/client';
+import { DatabaseService } from './database.service';
+import { LoggerService } from './logger.service';
+import { SchedulerConfig } from '../config';
+
+export interface PendingJob {
+  jobId: string;
+  userId: number;
+  groupId: number;
+  priority: number;
+  createdAt: Date;
+  personaCount: number;
+}
+
+export interface RunningJob {
+  userId: number;
+  groupId: number;
+  remainingPersonas: number;
+}
+
+export interface QueuePosition {
+  jobId: string;
+  position: number;
+  estimatedStartTime: Date;
+}
+
+export interface QueuePositionsResult {
+  pending: number;
+  running: number;
+  secondsPerPersona: number;
+}
+
+// Serializes claims so two workers can't both fill the last slot under a cap
+const CLAIM_LOCK_KEY = 72410002;
+const DEFAULT_SECONDS_PER_PERSONA = 1;
+
+/** Personas started recently, for fair share. */
+export interface ServedJob {
+  userId: number;
+  groupId: number;
+  personaCount: number;
+  startedAt: Date;
+}
+
+/** Running jobs per user and group, and what each was served within the fair-share window. */
+class Usage {
+  private userJobs = new Map<number, number>();
+  private groupJobs = new Map<number, number>();
+  private served: ServedJob[] = [];
+  private windowMs: number;
+
+  constructor(windowMinutes: number) {
+    this.windowMs = windowMinutes * 60000;
+  }
+
+  start(job: RunningJob): void {
+    bump(this.userJobs, job.userId, 1);
+    bump(this.groupJobs, job.groupId, 1);
+  }
+
+  finish(job: RunningJob): void {
+    bump(this.userJobs, job.userId, -1);
+    bump(this.groupJobs, job.groupId, -1);
+  }
+
+  serve(job: ServedJob): void {
+    this.served.push(job);
+  }
+
+  jobsOfUser(userId: number): number {
+    return this.userJobs.get(userId) ?? 0;
+  }
+
+  jobsOfGroup(groupId: number): number {
+    return this.groupJobs.get(groupId) ?? 0;
+  }
+
+  /** Personas served per user and per group within the window ending at `now`. */
+  shares(now: Date): { users: Map<number, number>; groups: Map<number, number> } {
+    const users = new Map<number, number>();
+    const groups = new Map<number, number>();
+    const since = now.getTime() - this.windowMs;
+    for (const job of this.served) {
+      if (job.startedAt.getTime() > since && job.startedAt <= now) {
+        bump(users, job.userId, job.personaCount);
+        bump(groups, job.groupId, job.personaCount);
+      }
+    }
+    return { users, groups };
+  }
+}
+
+function bump(map: Map<number, number>, key: number, delta: number): void {
+  map.set(key, (map.get(key) ?? 0) + delta);
+}
+
+/**
+ * Decides which PENDING queue job runs next. Jobs are ranked by:
+ *   1. priority, raised by one level for every SCHEDULER_AGING_MINUTES waited
+ *   2. personas their group started within the fair-share window, divided
+ *      by the group's weight
+ *   3. personas their user started within that window
+ *   4. age
+ * so priority still wins, but among equal priorities the least-served group
+ * and then user go first. Jobs whose user or group is at its concurrency cap
+ * are skipped until one of their running jobs finishes.
+ */
+export class FairShareScheduler {
+  private database: DatabaseService;
+  private logger: LoggerService;
+  private config: SchedulerConfig;
+
+  constructor(database: DatabaseService, logger: LoggerService, config: SchedulerConfig) {
+    this.database = database;
+    this.logger = logger;
+    this.config = config;
+  }
+
+  /** Picks the job to claim next. Call inside the claiming transaction. */
+  async selectNext(tx: Prisma.TransactionClient, now: Date = new Date()): Promise<string | null> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`;
+
+    const pending = await this.loadCandidates(tx, now);
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const usage = new Usage(this.config.fairShareWindowMinutes);
+    (await this.loadRunning(tx)).forEach((job) => usage.start(job));
+    (await this.loadServed(tx, now)).forEach((job) => usage.serve(job));
+
+    const next = this.pickNext(pending, usage, now);
+    if (!next && pending.length > 0) {
+      this.logger.debug(`⏸️ Pending jobs of ${pending.length} users, all held back by concurrency caps`);
+    }
+    return next?.jobId ?? null;
+  }
+
+  /**
+   * Recomputes `queue_position` and `estimated_start_time` of every queued
+   * simulation by replaying the scheduler: running jobs free their slots as
+   * they are expected to finish, and each freed slot goes to the job the
+   * scheduler would pick at that point. Durations come from the recent
+   * seconds-per-persona of completed jobs.
+   */
+  async updateQueuePositions(options: { dryRun?: boolean } = {}): Promise<QueuePositionsResult> {
+    const now = new Date();
+
+    const { pending, running, served, secondsPerPersona } = await this.database.executeWithRetry(async (prisma) => {
+      return {
+        pending: await this.loadPending(prisma),
+        running: await this.loadRunning(prisma),
+        served: await this.loadServed(prisma, now),
+        secondsPerPersona: await this.observedSecondsPerPersona(prisma),
+      };
+    });
+
+    const positions = this.estimatePositions(pending, running, served, secondsPerPersona, now);
+
+    if (options.dryRun) {
+      this.logger.info(`🔍 Would update queue positions of ${positions.length} jobs (dry run)`);
+    } else {
+      await this.database.executeWithRetry(async (prisma) => {
+        await prisma.$transaction([
+          prisma.$executeRaw`
+            UPDATE simulations s
+            SET queue_position = NULL, estimated_start_time = NULL
+            WHERE s.queue_position IS NOT NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM simulation_queue_jobs qj WHERE qj.job_id = s.queue_job_id AND qj.status = 'PENDING'
+            )
+          `,
+          prisma.$executeRaw`
+            UPDATE simulations s
+            SET queue_position = v.position, estimated_start_time = v.start_time::timestamp
+            FROM unnest(
+              ${positions.map((p) => p.jobId)}::text[],
+              ${positions.map((p) => p.position)}::int[],
+              ${positions.map((p) => p.estimatedStartTime.toISOString())}::text[]
+            ) AS v(job_id, position, start_time)
+            WHERE s.queue_job_id = v.job_id
+          `,
+        ]);
+      });
+      this.logger.debug(`📋 Updated queue positions of ${positions.length} jobs`);
+    }
+
+    return { pending: pending.length, running: running.length, secondsPerPersona };
+  }
+
+  private pickNext(pending: PendingJob[], usage: Usage, now: Date): PendingJob | null {
+    const shares = usage.shares(now);
+    let best: PendingJob | null = null;
+    for (const job of pending) {
+      if (this.atCap(job, usage)) {
+        continue;
+      }
+      if (!best || this.compare(job, best, shares, now) < 0) {
+        best = job;
+      }
+    }
+    return best;
+  }
+
+  private estimatePositions(
+    pending: PendingJob[],
+    running: RunningJob[],
+    served: ServedJob[],
+    secondsPerPersona: number,
+    now: Date,
+  ): QueuePosition[] {
+    const usage = new Usage(this.config.fairShareWindowMinutes);
+    served.forEach((job) => usage.serve(job));
+    // Slots in use, with the time each frees up; at least one slot even when idle
+    const slots: Array<{ freeAt: number; job: RunningJob | null }> = running.map((job) => {
+      usage.start(job);
+      return { freeAt: now.getTime() + job.remainingPersonas * secondsPerPersona * 1000, job };
+    });
+    if (slots.length === 0) {
+      slots.push({ freeAt: now.getTime(), job: null });
+    }
+
+    const queue = [...pending];
+    const positions: QueuePosition[] = [];
+
+    while (queue.length > 0 && slots.length > 0) {
+      slots.sort((a, b) => a.freeAt - b.freeAt);
+      const slot = slots.shift()!;
+      if (slot.job) {
+        usage.finish(slot.job);
+      }
+
+      const at = new Date(slot.freeAt);
+      const next = this.pickNext(queue, usage, at);
+      if (!next) {
+        // Everything left is capped; wait for another slot to free up
+        if (slots.length === 0) {
+          break;
+        }
+        continue;
+      }
+
+      queue.splice(queue.indexOf(next), 1);
+      positions.push({ jobId: next.jobId, position: positions.length + 1, estimatedStartTime: at });
+
+      const job: RunningJob = { userId: next.userId, groupId: next.groupId, remainingPersonas: next.personaCount };
+      usage.start(job);
+      usage.serve({ userId: next.userId, groupId: next.groupId, personaCount: next.personaCount, startedAt: at });
+      slots.push({ freeAt: slot.freeAt + next.personaCount * secondsPerPersona * 1000, job });
+    }
+
+    return positions;
+  }
+
+  private atCap(job: PendingJob, usage: Usage): boolean {
+    const { maxRunningPerUser, maxRunningPerGroup } = this.config;
+    return (
+      (maxRunningPerUser > 0 && usage.jobsOfUser(job.userId) >= maxRunningPerUser) ||
+      (maxRunningPerGroup > 0 && usage.jobsOfGroup(job.groupId) >= maxRunningPerGroup)
+    );
+  }
+
+  private compare(a: PendingJob, b: PendingJob, shares: ReturnType<Usage['shares']>, now: Date): number {
+    const userShare = (job: PendingJob) => shares.users.get(job.userId) ?? 0;
+    const groupShare = (job: PendingJob) =>
+      (shares.groups.get(job.groupId) ?? 0) / (this.config.groupWeights[job.groupId] ?? 1);
+
+    return (
+      this.effectivePriority(b, now) - this.effectivePriority(a, now) ||
+      groupShare(a) - groupShare(b) ||
+      userShare(a) - userShare(b) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  private effectivePriority(job: PendingJob, now: Date): number {
+    if (this.config.agingMinutes <= 0) {
+      return job.priority;
+    }
+    const waitedMinutes = Math.max(now.getTime() - job.createdAt.getTime(), 0) / 60000;
+    return job.priority + Math.floor(waitedMinutes / this.config.agingMinutes);
+  }
+
+  private async loadPending(client: Prisma.TransactionClient): Promise<PendingJob[]> {
+    const rows = await client.$queryRaw<PendingJob[]>`
+      SELECT qj.job_id AS "jobId", qj.user_id AS "userId", s.group_id AS "groupId",
+             qj.priority, qj.created_at AS "createdAt", qj.persona_count AS "personaCount"
+      FROM simulation_queue_jobs qj
+      JOIN surveys s ON s.id = qj.survey_id
+      WHERE qj.status = 'PENDING'
+    `;
+    return rows;
+  }
+
+  /**
+   * The best pending job of every user within each group. Jobs of one user
+   * and group share their caps and fair shares, so only effective priority
+   * (as in effectivePriority) and age tell them apart, and only the first of
+   * them can be picked. A tenant with a long backlog therefore can't crowd
+   * out the others.
+   */
+  private async loadCandidates(client: Prisma.TransactionClient, now: Date): Promise<PendingJob[]> {
+    const agingMinutes = this.config.agingMinutes;
+    const rows = await client.$queryRaw<PendingJob[]>`
+      SELECT "jobId", "userId", "groupId", priority, "createdAt", "personaCount" FROM (
+        SELECT qj.job_id AS "jobId", qj.user_id AS "userId", s.group_id AS "groupId",
+               qj.priority, qj.created_at AS "createdAt", qj.persona_count AS "personaCount",
+               ROW_NUMBER() OVER (
+                 PARTITION BY qj.user_id, s.group_id
+                 ORDER BY qj.priority + CASE WHEN ${agingMinutes} > 0
+                   THEN FLOOR(GREATEST(EXTRACT(EPOCH FROM (${now} - qj.created_at)), 0) / 60 / ${agingMinutes})
+                   ELSE 0 END DESC,
+                 qj.created_at ASC
+               ) AS rank
+        FROM simulation_queue_jobs qj
+        JOIN surveys s ON s.id = qj.survey_id
+        WHERE qj.status = 'PENDING'
+      ) ranked
+      WHERE rank = 1
+    `;
+    return rows;
+  }
+
+  private async loadRunning(client: Prisma.TransactionClient): Promise<RunningJob[]> {
+    const rows = await client.$queryRaw<Array<{ userId: number; groupId: number; remainingPersonas: number }>>`
+      SELECT qj.user_id AS "userId", s.group_id AS "groupId",
+             CEIL(qj.persona_count * (100 - qj.progress_percentage) / 100)::int AS "remainingPersonas"
+      FROM simulation_queue_jobs qj
+      JOIN surveys s ON s.id = qj.survey_id
+      WHERE qj.status = 'PROCESSING'
+    `;
+    return rows;
+  }
+
+  private async loadServed(client: Prisma.TransactionClient, now: Date): Promise<ServedJob[]> {
+    const since = new Date(now.getTime() - this.config.fairShareWindowMinutes * 60000);
+    const rows = await client.$queryRaw<ServedJob[]>`
+      SELECT qj.user_id AS "userId", s.group_id AS "groupId",
+             qj.persona_count AS "personaCount", qj.started_at AS "startedAt"
+      FROM simulation_queue_jobs qj
+      JOIN surveys s ON s.id = qj.survey_id
+      WHERE qj.started_at > ${since}
+    `;
+    return rows;
+  }
+
+  private async observedSecondsPerPersona(client: Prisma.TransactionClient): Promise<number> {
+    const [row] = await client.$queryRaw<Array<{ secondsPerPersona: number | null }>>`
+      SELECT (SUM(EXTRACT(EPOCH FROM (completed_at - started_at))) / NULLIF(SUM(persona_count), 0))::float AS "secondsPerPersona"
+      FROM (
+        SELECT completed_at, started_at, persona_count
+        FROM simulation_queue_jobs
+        WHERE status IN ('COMPLETED', 'PARTIALLY_COMPLETED')
+        AND completed_at IS NOT NULL AND started_at IS NOT NULL
+        ORDER BY completed_at DESC
+        LIMIT 50
+      ) recent
+    `;
+    return row?.secondsPerPersona && row.secondsPerPersona > 0 ? row.secondsPerPersona : DEFAULT_SECONDS_PER_PERSONA;
+  }
+}
@@ -0,0 +1,268 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { DatabaseService } from './database.service';
+import { RecoveryService } from './recovery.service';
+import { CronService } from './cron.service';
+import { LoggerService } from './logger.service';
+import { MetricsService } from './metrics.service';
+import { DatabaseUnavailableError, InvalidStateError, NotFoundError } from '../errors';
+import { HttpConfig } from '../config';
+
+interface HttpResult {
+  statusCode: number;
+  body: unknown;
+  contentType?: string;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handler: (params: string[], query: URLSearchParams) => Promise<HttpResult>;
+}
+
+/**
+ * Small admin and status API used by ops to inspect and steer the runner.
+ * POST routes require `Authorization: Bearer <ADMIN_API_TOKEN>` and are
+ * refused altogether while no token is configured.
+ */
+export class HttpService {
+  private database: DatabaseService;
+  private recoveryService: RecoveryService;
+  private cronService: CronService;
+  private logger: LoggerService;
+  private metrics: MetricsService;
+  private server: Server | null = null;
+  private routes: Route[];
+  private port: number;
+  private host: string;
+  private adminToken: string | undefined;
+  private startedAt: Date = new Date();
+
+  constructor(
+    database: DatabaseService,
+    recoveryService: RecoveryService,
+    cronService: CronService,
+    logger: LoggerService,
+    metrics: MetricsService,
+    config: HttpConfig,
+  ) {
+    this.database = database;
+    this.recoveryService = recoveryService;
+    this.cronService = cronService;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.port = config.port;
+    this.host = config.host;
+    this.adminToken = config.adminToken;
+
+    this.routes = [
+      { method: 'GET', pattern: /^\/health$/, handler: () => this.health() },
+      { method: 'GET', pattern: /^\/status$/, handler: () => this.status() },
+      { method: 'GET', pattern: /^\/metrics$/, handler: () => this.metricsText() },
+      { method: 'GET', pattern: /^\/simulations\/([^/]+)$/, handler: ([id]) => this.simulation(id) },
+      { method: 'POST', pattern: /^\/simulations\/([^/]+)\/retry$/, handler: ([id]) => this.retrySimulation(id) },
+      { method: 'POST', pattern: /^\/simulations\/([^/]+)\/cancel$/, handler: ([id]) => this.cancelSimulation(id) },
+      { method: 'GET', pattern: /^\/tasks\/([^/]+)\/runs$/, handler: ([name]) => this.taskRuns(name) },
+      { method: 'POST', pattern: /^\/tasks\/([^/]+)\/run$/, handler: ([name], query) => this.runTask(name, query.get('dryRun') === 'true') },
+    ];
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.logger.error('❌ Unhandled HTTP error:', error);
+        this.send(res, { statusCode: 500, body: { error: 'Internal server error' } });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.startedAt = new Date();
+    this.logger.info(`🔌 Recovery Service running on ${this.host}:${this.port}`);
+    if (!this.adminToken) {
+      this.logger.warn('⚠️ ADMIN_API_TOKEN is not set; POST routes of the admin API are disabled');
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+    this.logger.info('🛑 HTTP server stopped');
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+    const pathMatches = this.routes.filter((route) => route.pattern.test(path));
+
+    if (pathMatches.length === 0) {
+      this.send(res, { statusCode: 404, body: { error: `No route for ${path}` } });
+      return;
+    }
+
+    const route = pathMatches.find((candidate) => candidate.method === req.method);
+    if (!route) {
+      this.send(res, { statusCode: 405, body: { error: `Method ${req.method} not allowed` } });
+      return;
+    }
+
+    if (route.method === 'POST' && !this.adminToken) {
+      this.send(res, { statusCode: 403, body: { error: 'Admin routes are disabled; set ADMIN_API_TOKEN to enable them' } });
+      return;
+    }
+
+    if (route.method === 'POST' && !this.isAuthorized(req, this.adminToken!)) {
+      this.send(res, { statusCode: 401, body: { error: 'Unauthorized' } });
+      return;
+    }
+
+    let params: string[];
+    try {
+      params = (path.match(route.pattern) || []).slice(1).map(decodeURIComponent);
+    } catch {
+      this.send(res, { statusCode: 400, body: { error: `Malformed path ${path}` } });
+      return;
+    }
+
+    try {
+      this.send(res, await route.handler(params, url.searchParams));
+    } catch (error) {
+      this.send(res, this.toErrorResult(error));
+    }
+  }
+
+  private async health(): Promise<HttpResult> {
+    const database = await this.database.healthCheck();
+    const cron = this.cronService.isServiceRunning();
+
+    return {
+      statusCode: database ? 200 : 503,
+      body: {
+        status: database ? 'ok' : 'unavailable',
+        live: true,
+        ready: database,
+        checks: { database, cron },
+      },
+    };
+  }
+
+  private async status(): Promise<HttpResult> {
+    return {
+      statusCode: 200,
+      body: {
+        startedAt: this.startedAt,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt.getTime()) / 1000),
+        leader: this.cronService.isLeader(),
+        database: this.database.getConnectionStatus(),
+        personaConcurrency: this.recoveryService.getPersonaConcurrency(),
+        saveConcurrency: this.recoveryService.getSaveConcurrency(),
+        cron: {
+          running: this.cronService.isServiceRunning(),
+          tasks: this.cronService.getTaskStatus(),
+          schedules: this.cronService.getSchedules(),
+          lastResults: this.cronService.getLastResults(),
+        },
+      },
+    };
+  }
+
+  private async metricsText(): Promise<HttpResult> {
+    return {
+      statusCode: 200,
+      body: await this.metrics.render(),
+      contentType: 'text/plain; version=0.0.4; charset=utf-8',
+    };
+  }
+
+  private async simulation(simulationId: string): Promise<HttpResult> {
+    return { statusCode: 200, body: await this.recoveryService.getSimulationProgress(simulationId) };
+  }
+
+  private async retrySimulation(simulationId: string): Promise<HttpResult> {
+    await this.recoveryService.retrySimulation(simulationId, 'admin-api');
+    return { statusCode: 202, body: await this.recoveryService.getSimulationProgress(simulationId) };
+  }
+
+  private async cancelSimulation(simulationId: string): Promise<HttpResult> {
+    await this.recoveryService.cancelSimulation(simulationId, 'admin-api');
+    return { statusCode: 200, body: await this.recoveryService.getSimulationProgress(simulationId) };
+  }
+
+  private async taskRuns(name: string): Promise<HttpResult> {
+    this.requireTask(name);
+    return { statusCode: 200, body: { task: name, runs: this.cronService.getRunHistory(name) } };
+  }
+
+  /**
+   * Starts the task and answers 202 right away; the outcome lands in the
+   * task's run history. Refusals (leader-only, already running) are still
+   * answered with 409.
+   */
+  private async runTask(name: string, dryRun: boolean): Promise<HttpResult> {
+    this.requireTask(name);
+    const options = dryRun ? { dryRun } : {};
+    this.cronService.assertCanRun(name, options);
+
+    this.logger.info(`▶️ Running task ${name} on demand${dryRun ? ' (dry run)' : ''}`);
+    this.cronService.runTask(name, options).catch((error) => {
+      this.logger.error(`❌ On-demand ${name} failed:`, error);
+    });
+
+    return { statusCode: 202, body: { task: name, status: 'started', dryRun, runs: `/tasks/${name}/runs` } };
+  }
+
+  private requireTask(name: string): void {
+    if (!this.cronService.hasTask(name)) {
+      throw new NotFoundError(`Unknown task ${name}; expected one of ${this.cronService.getTaskNames().join(', ')}`);
+    }
+  }
+
+  /** Compares digests so the check takes the same time whatever the header holds. */
+  private isAuthorized(req: IncomingMessage, token: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(req.headers.authorization ?? ''), digest(`Bearer ${token}`));
+  }
+
+  private toErrorResult(error: unknown): HttpResult {
+    if (error instanceof NotFoundError) {
+      return { statusCode: 404, body: { error: error.message } };
+    }
+    if (error instanceof InvalidStateError) {
+      return { statusCode: 409, body: { error: error.message } };
+    }
+    if (error instanceof DatabaseUnavailableError) {
+      return { statusCode: 503, body: { error: error.message } };
+    }
+
+    this.logger.error('❌ HTTP request failed:', error);
+    return {
+      statusCode: 500,
+      body: { error: error instanceof Error ? error.message : 'Unknown error' },
+    };
+  }
+
+  private send(res: ServerResponse, result: HttpResult): void {
+    if (res.headersSent) {
+      return;
+    }
+
+    if (result.contentType) {
+      res.writeHead(result.statusCode, { 'Content-Type': result.contentType });
+      res.end(String(result.body));
+      return;
+    }
+
+    res.writeHead(result.statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result.body));
+  }
+}
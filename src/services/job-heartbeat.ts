@@ -0,0 +1,62 @@
+import { DatabaseService } from './database.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * Periodically stamps `heartbeat_at` on a claimed queue job and extends its
+ * lease while the owning worker is alive. If the update stops matching (the
+ * job was reclaimed or reset), the lease is reported as lost so the worker
+ * can stop instead of racing the new owner.
+ */
+export class JobHeartbeat {
+  private database: DatabaseService;
+  private logger: LoggerService;
+  private jobId: string;
+  private workerId: string;
+  private leaseSeconds: number;
+  private timer: NodeJS.Timeout | null = null;
+  private lost: boolean = false;
+
+  constructor(
+    database: DatabaseService,
+    logger: LoggerService,
+    options: { jobId: string; workerId: string; leaseSeconds: number; intervalSeconds: number },
+  ) {
+    this.database = database;
+    this.logger = logger;
+    this.jobId = options.jobId;
+    this.workerId = options.workerId;
+    this.leaseSeconds = options.leaseSeconds;
+
+    this.timer = setInterval(() => {
+      this.beat().catch((error) => this.logger.warn(`Heartbeat for job ${this.jobId} failed:`, error));
+    }, options.intervalSeconds * 1000);
+  }
+
+  isLost(): boolean {
+    return this.lost;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async beat(): Promise<void> {
+    const prisma = this.database.getClient();
+
+    const updated = await prisma.$executeRaw`
+      UPDATE simulation_queue_jobs
+      SET "heartbeat_at" = NOW(),
+          "lease_expires_at" = NOW() + (${this.leaseSeconds} * INTERVAL '1 second')
+      WHERE "job_id" = ${this.jobId} AND "worker_id" = ${this.workerId}
+    `;
+
+    if (updated === 0 && !this.lost) {
+      this.lost = true;
+      this.stop();
+      this.logger.warn(`⚠️ Worker ${this.workerId} lost its lease on job ${this.jobId}`);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { PrismaClient } from '@prisma/client';
+import { LoggerService } from './logger.service';
+import { LeaderElectionConfig } from '../config';
+
+type LeadershipListener = (isLeader: boolean) => void;
+
+/**
+ * Elects a single leader among runner instances using a session-level
+ * Postgres advisory lock. The lock lives on a dedicated single-connection
+ * client, so it is held exactly as long as that session is alive: if the
+ * leader dies or loses its connection, Postgres releases the lock and another
+ * instance acquires it on its next renewal tick.
+ */
+export class LeaderElectionService {
+  private logger: LoggerService;
+  private databaseUrl: string;
+  private prisma: PrismaClient | null = null;
+  private enabled: boolean;
+  private lockKey: number;
+  private renewIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private leader: boolean = false;
+  private ticking: boolean = false;
+  private listeners: LeadershipListener[] = [];
+
+  constructor(logger: LoggerService, config: LeaderElectionConfig, databaseUrl: string) {
+    this.logger = logger;
+    this.databaseUrl = databaseUrl;
+    this.enabled = config.enabled;
+    this.lockKey = config.lockKey;
+    this.renewIntervalMs = config.renewIntervalMs;
+  }
+
+  async start(): Promise<void> {
+    if (!this.enabled) {
+      this.logger.info('👑 Leader election disabled, this instance acts as leader');
+      this.setLeader(true);
+      return;
+    }
+
+    await this.tick();
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => this.logger.error('❌ Leader election tick failed:', error));
+    }, this.renewIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.prisma) {
+      if (this.leader) {
+        try {
+          await this.prisma.$queryRaw`SELECT pg_advisory_unlock(${this.lockKey}::bigint)`;
+        } catch (error) {
+          this.logger.warn('Failed to release leader lock, it is released when the session closes:', error);
+        }
+      }
+      await this.prisma.$disconnect().catch(() => undefined);
+      this.prisma = null;
+    }
+
+    this.setLeader(false);
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  onLeadershipChange(listener: LeadershipListener): void {
+    this.listeners.push(listener);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      if (this.leader) {
+        await this.renew();
+      } else {
+        await this.tryAcquire();
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async tryAcquire(): Promise<void> {
+    try {
+      const rows = await this.getClient().$queryRaw<Array<{ acquired: boolean }>>`
+        SELECT pg_try_advisory_lock(${this.lockKey}::bigint) AS acquired
+      `;
+
+      if (rows[0]?.acquired) {
+        this.setLeader(true);
+      }
+    } catch (error) {
+      this.logger.warn('Leader lock acquisition failed:', error);
+      await this.resetClient();
+    }
+  }
+
+  /**
+   * Confirms the lock is still held by our session. A dropped connection
+   * means the lock was released server-side, so we step down.
+   */
+  private async renew(): Promise<void> {
+    try {
+      const rows = await this.getClient().$queryRaw<Array<{ held: boolean }>>`
+        SELECT EXISTS (
+          SELECT 1 FROM pg_locks
+          WHERE locktype = 'advisory'
+            AND classid = 0
+            AND objid = ${this.lockKey}
+            AND objsubid = 1
+            AND granted
+            AND pid = pg_backend_pid()
+        ) AS held
+      `;
+
+      if (!rows[0]?.held) {
+        this.logger.warn('⚠️ Leader lock is no longer held by this session');
+        this.setLeader(false);
+      }
+    } catch (error) {
+      this.logger.error('❌ Leader lease renewal failed, stepping down:', error);
+      this.setLeader(false);
+      await this.resetClient();
+    }
+  }
+
+  private getClient(): PrismaClient {
+    if (!this.prisma) {
+      this.prisma = new PrismaClient({
+        datasourceUrl: this.singleConnectionUrl(),
+        log: ['error', 'warn'],
+      });
+    }
+    return this.prisma;
+  }
+
+  private async resetClient(): Promise<void> {
+    const client = this.prisma;
+    this.prisma = null;
+    await client?.$disconnect().catch(() => undefined);
+  }
+
+  private singleConnectionUrl(): string {
+    const url = new URL(this.databaseUrl);
+    url.searchParams.set('connection_limit', '1');
+    return url.toString();
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (this.leader === isLeader) {
+      return;
+    }
+
+    this.leader = isLeader;
+    this.logger.info(isLeader ? '👑 This instance is now the leader' : '👥 This instance is now a follower');
+    this.listeners.forEach((listener) => listener(isLeader));
+  }
+}
@@ -1,11 +1,16 @@
 import * as winston from 'winston';
+import { LoggingConfig } from '../config';
 
 export class LoggerService {
   private logger: winston.Logger;
 
-  constructor() {
+  /**
+   * `stderr` sends console output to stderr, keeping stdout free for
+   * command output (used by the CLI).
+   */
+  constructor(config: LoggingConfig, options: { stderr?: boolean } = {}) {
     this.logger = winston.createLogger({
-      level: process.env.LOG_LEVEL || 'info',
+      level: config.level,
       format: winston.format.combine(
         winston.format.timestamp({
           format: 'YYYY-MM-DD HH:mm:ss'
@@ -14,11 +19,12 @@ export class LoggerService {
         winston.format.json()
       ),
       defaultMeta: { 
-        service: process.env.SERVICE_NAME || 'TwinQuest Recovery Service',
-        version: process.env.SERVICE_VERSION || '1.0.0'
+        service: config.serviceName,
+        version: config.serviceVersion
       },
       transports: [
         new winston.transports.Console({
+          ...(options.stderr ? { stderrLevels: Object.keys(winston.config.npm.levels) } : {}),
           format: winston.format.combine(
             winston.format.colorize(),
             winston.format.simple(),
@@ -0,0 +1,152 @@
+import { DatabaseService } from './database.service';
+import { LoggerService } from './logger.service';
+
+type MetricType = 'counter' | 'gauge' | 'summary';
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+  count: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: MetricType;
+  series: Map<string, Series>;
+}
+
+/**
+ * Minimal Prometheus registry rendered in the text exposition format.
+ * Counters and summaries are recorded in-process; queue depth and database
+ * connection stats are collected on each scrape.
+ */
+export class MetricsService {
+  private database: DatabaseService;
+  private logger: LoggerService;
+  private metrics: Map<string, Metric> = new Map();
+
+  constructor(database: DatabaseService, logger: LoggerService) {
+    this.database = database;
+    this.logger = logger;
+
+    this.register('twinquest_simulations_recovered_total', 'counter', 'Simulations recovered, by recovery task');
+    this.register('twinquest_simulations_recovery_failed_total', 'counter', 'Simulations that failed to recover, by recovery task');
+    this.register('twinquest_cron_task_runs_total', 'counter', 'Cron task runs, by task and outcome');
+    this.register('twinquest_cron_task_duration_seconds', 'summary', 'Cron task run duration');
+    this.register('twinquest_cron_task_last_success_timestamp_seconds', 'gauge', 'Unix time of the last successful run of a cron task');
+    this.register('twinquest_persona_batches_total', 'counter', 'Persona batches processed');
+    this.register('twinquest_personas_processed_total', 'counter', 'Personas processed, by outcome');
+    this.register('twinquest_persona_batch_duration_seconds', 'summary', 'Persona batch processing duration');
+    this.register('twinquest_generator_tokens_total', 'counter', 'Tokens used by the response generator, by model and kind (prompt or completion)');
+    this.register('twinquest_queue_jobs', 'gauge', 'Queue jobs in simulation_queue_jobs, by status');
+    this.register('twinquest_db_operation_retries_total', 'counter', 'Database operations retried by executeWithRetry');
+    this.register('twinquest_db_reconnects_total', 'counter', 'Database reconnection attempts, by outcome');
+    this.register('twinquest_db_circuit_state', 'gauge', 'Database reconnect circuit breaker state (1 for the current state)');
+    this.register('twinquest_db_connection_state_changes_total', 'counter', 'Database connection state changes, by new state');
+
+    database.onConnectionStateChange((event) => {
+      this.incrementCounter('twinquest_db_connection_state_changes_total', { state: event.state });
+    });
+  }
+
+  incrementCounter(name: string, labels: Labels = {}, value: number = 1): void {
+    const series = this.getSeries(name, labels);
+    series.value += value;
+  }
+
+  setGauge(name: string, labels: Labels, value: number): void {
+    this.getSeries(name, labels).value = value;
+  }
+
+  observe(name: string, labels: Labels, value: number): void {
+    const series = this.getSeries(name, labels);
+    series.value += value;
+    series.count += 1;
+  }
+
+  async render(): Promise<string> {
+    await this.collect();
+
+    const lines: string[] = [];
+    this.metrics.forEach((metric) => {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      metric.series.forEach((series) => {
+        const labels = this.formatLabels(series.labels);
+        if (metric.type === 'summary') {
+          lines.push(`${metric.name}_sum${labels} ${series.value}`);
+          lines.push(`${metric.name}_count${labels} ${series.count}`);
+        } else {
+          lines.push(`${metric.name}${labels} ${series.value}`);
+        }
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  private async collect(): Promise<void> {
+    const stats = this.database.getStats();
+    this.setSeries('twinquest_db_operation_retries_total', {}, stats.operationRetries);
+    this.setSeries('twinquest_db_reconnects_total', { outcome: 'success' }, stats.reconnectSuccesses);
+    this.setSeries('twinquest_db_reconnects_total', { outcome: 'failure' }, stats.reconnectFailures);
+
+    const { circuit } = this.database.getConnectionStatus();
+    for (const state of ['CLOSED', 'OPEN', 'HALF_OPEN']) {
+      this.setSeries('twinquest_db_circuit_state', { state }, state === circuit ? 1 : 0);
+    }
+
+    try {
+      const prisma = this.database.getClient();
+      const rows = await prisma.$queryRaw<Array<{ status: string; count: bigint }>>`
+        SELECT status, COUNT(*) AS count FROM simulation_queue_jobs GROUP BY status
+      `;
+
+      // Reset so statuses that drained to zero are not reported with stale values
+      this.metrics.get('twinquest_queue_jobs')!.series.forEach((series) => {
+        series.value = 0;
+      });
+      for (const row of rows) {
+        this.setGauge('twinquest_queue_jobs', { status: row.status }, Number(row.count));
+      }
+    } catch (error) {
+      this.logger.warn('Failed to collect queue depth metrics:', error);
+    }
+  }
+
+  private register(name: string, type: MetricType, help: string): void {
+    this.metrics.set(name, { name, type, help, series: new Map() });
+  }
+
+  private setSeries(name: string, labels: Labels, value: number): void {
+    this.getSeries(name, labels).value = value;
+  }
+
+  private getSeries(name: string, labels: Labels): Series {
+    const metric = this.metrics.get(name);
+    if (!metric) {
+      throw new Error(`Unknown metric: ${name}`);
+    }
+
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = metric.series.get(key);
+    if (!series) {
+      series = { labels, value: 0, count: 0 };
+      metric.series.set(key, series);
+    }
+    return series;
+  }
+
+  private formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+  }
+}
@@ -0,0 +1,97 @@
+import { RecoveryService } from './recovery.service';
+import { LoggerService } from './logger.service';
+import { QueueWorkerConfig } from '../config';
+
+/**
+ * Runs `concurrency` independent claim-and-process loops, so up to that many
+ * queue jobs are processed at once. Personas of all of them share the
+ * RecoveryService's persona limit.
+ */
+export class QueueWorkerService {
+  private recoveryService: RecoveryService;
+  private logger: LoggerService;
+  private pollIntervalMs: number;
+  private concurrency: number;
+  private isRunning: boolean = false;
+  private loops: Promise<void>[] = [];
+  private busyLoops: number = 0;
+  private wakeUps: Set<() => void> = new Set();
+
+  constructor(recoveryService: RecoveryService, logger: LoggerService, config: QueueWorkerConfig) {
+    this.recoveryService = recoveryService;
+    this.logger = logger;
+    this.pollIntervalMs = config.pollIntervalMs;
+    this.concurrency = config.concurrency;
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      this.logger.warn('Queue worker is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.loops = Array.from({ length: this.concurrency }, () => this.run());
+    this.logger.info(`👷 Queue worker started (${this.concurrency} concurrent jobs, poll interval ${this.pollIntervalMs}ms)`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    this.wake();
+
+    // Let the jobs in progress finish before returning
+    await Promise.all(this.loops);
+    this.loops = [];
+    this.logger.info('🛑 Queue worker stopped');
+  }
+
+  /** Ends the current poll waits early, e.g. once the database is reachable again. */
+  wake(): void {
+    this.wakeUps.forEach((wakeUp) => wakeUp());
+  }
+
+  isWorkerRunning(): boolean {
+    return this.isRunning;
+  }
+
+  /** `busyLoops` counts loops claiming or processing a job rather than waiting for the next poll. */
+  getConcurrency(): { jobs: number; busyLoops: number } {
+    return { jobs: this.concurrency, busyLoops: this.busyLoops };
+  }
+
+  private async run(): Promise<void> {
+    while (this.isRunning) {
+      let processed = false;
+
+      this.busyLoops++;
+      try {
+        processed = await this.recoveryService.processQueueJobs();
+      } catch (error) {
+        this.logger.error('❌ Queue worker iteration failed:', error);
+      } finally {
+        this.busyLoops--;
+      }
+
+      // Keep draining while there is work, otherwise wait for the next poll
+      if (!processed && this.isRunning) {
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUps.delete(wakeUp);
+        resolve();
+      };
+      const timer = setTimeout(wakeUp, ms);
+      this.wakeUps.add(wakeUp);
+    });
+  }
+}
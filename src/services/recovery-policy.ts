@@ -0,0 +1,82 @@
+import { RecoveryConfig } from '../config';
+
+export type RecoveryDecision =
+  | { action: 'RECOVER' }
+  | { action: 'WAIT'; nextAttemptAt: Date }
+  | { action: 'DEAD_LETTER'; reason: string };
+
+export interface RecoveryCandidate {
+  recoveryAttempts: number;
+  lastRecoveryAttempt: Date | null;
+  jobRetryCount?: number | null;
+  jobMaxRetries?: number | null;
+}
+
+export interface RecoveryPolicyOptions {
+  maxRecoveryAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+/**
+ * Decides whether a simulation may be recovered now, has to wait for its
+ * backoff window, or has exhausted its attempts and must be dead-lettered.
+ */
+export class RecoveryPolicy {
+  private options: RecoveryPolicyOptions;
+
+  constructor(options: RecoveryPolicyOptions) {
+    this.options = options;
+  }
+
+  static fromConfig(config: RecoveryConfig): RecoveryPolicy {
+    return new RecoveryPolicy({
+      maxRecoveryAttempts: config.maxRecoveryAttempts,
+      backoffBaseMs: config.backoffBaseMinutes * 60 * 1000,
+      backoffMaxMs: config.backoffMaxMinutes * 60 * 1000,
+    });
+  }
+
+  evaluate(candidate: RecoveryCandidate, now: Date = new Date()): RecoveryDecision {
+    if (candidate.recoveryAttempts >= this.options.maxRecoveryAttempts) {
+      return {
+        action: 'DEAD_LETTER',
+        reason: `Recovery attempts exhausted (${candidate.recoveryAttempts}/${this.options.maxRecoveryAttempts})`,
+      };
+    }
+
+    if (
+      candidate.jobRetryCount !== null && candidate.jobRetryCount !== undefined &&
+      candidate.jobMaxRetries !== null && candidate.jobMaxRetries !== undefined &&
+      candidate.jobRetryCount >= candidate.jobMaxRetries
+    ) {
+      return {
+        action: 'DEAD_LETTER',
+        reason: `Job retries exhausted (${candidate.jobRetryCount}/${candidate.jobMaxRetries})`,
+      };
+    }
+
+    const nextAttemptAt = this.nextAttemptAt(candidate);
+    if (nextAttemptAt && nextAttemptAt > now) {
+      return { action: 'WAIT', nextAttemptAt };
+    }
+
+    return { action: 'RECOVER' };
+  }
+
+  /**
+   * Earliest time the next attempt may run: base * 2^(attempts - 1) after the
+   * last attempt, capped at the configured maximum.
+   */
+  nextAttemptAt(candidate: RecoveryCandidate): Date | null {
+    if (!candidate.lastRecoveryAttempt || candidate.recoveryAttempts === 0) {
+      return null;
+    }
+
+    const delay = Math.min(
+      this.options.backoffBaseMs * Math.pow(2, candidate.recoveryAttempts - 1),
+      this.options.backoffMaxMs,
+    );
+    return new Date(candidate.lastRecoveryAttempt.getTime() + delay);
+  }
+}
@@ -1,5 +1,26 @@
 import { DatabaseService } from './database.service';
+import { Prisma, SimulationStatus, simulations } from '@prisma/client';
+import { InvalidStateError, LeaseLostError, NotFoundError, RateLimitError, SimulationCancelledError } from '../errors';
+import {
+  GeneratedResponse,
+  GenerationContext,
+  PersonaProfile,
+  PromptTemplate,
+  PromptTemplateRegistry,
+  QuestionWithOptions,
+  ResponseGenerator,
+  TokenUsage,
+  templateId,
+  validateResponses,
+} from '../generators';
 import { LoggerService } from './logger.service';
+import { MetricsService } from './metrics.service';
+import { JobHeartbeat } from './job-heartbeat';
+import { SimulationStateMachine } from './simulation-state-machine';
+import { RecoveryPolicy } from './recovery-policy';
+import { BillingService, JobBilling } from './billing.service';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+import { RecoveryConfig } from '../config';
 
 export interface RecoveryResult {
   recovered: number;
@@ -8,158 +29,445 @@ export interface RecoveryResult {
   status: 'HEALTHY' | 'UNHEALTHY' | 'WARNING';
   issues: string[];
   recommendations: string[];
+  deferred?: number;
+  deadLettered?: number;
+  dryRun?: boolean;
+  /** What was done (or, in a dry run, would be done) to each candidate. */
+  actions?: RecoveryAction[];
+}
+
+export interface RecoveryAction {
+  type: 'REQUEUE' | 'RESUME' | 'DEAD_LETTER' | 'WAIT' | 'DELETE';
+  simulationId?: string;
+  jobId?: string;
+  detail: string;
+}
+
+export interface RecoveryRunOptions {
+  /** Compute candidates and planned actions without writing anything. Defaults to DRY_RUN. */
+  dryRun?: boolean;
+  /** Aborted when the run exceeds its time limit; checked between simulations. */
+  signal?: AbortSignal;
+}
+
+export interface QueueJob {
+  id: number;
+  job_id: string;
+  survey_id: number;
+  user_id: number;
+  persona_count: number;
+  selected_persona_ids: number[];
+  is_random_selection: boolean;
+  status: string;
+  progress_percentage: number;
+  priority: number;
+  created_at: Date;
+  started_at?: Date;
+  completed_at?: Date;
+  failed_at?: Date;
+  retry_count: number;
+  max_retries: number;
+  error_message?: string;
+  metadata: any;
+  worker_id?: string;
+  lease_expires_at?: Date;
+  heartbeat_at?: Date;
+}
+
+export interface SimulationProgress {
+  simulationId: string;
+  surveyId: number;
+  status: string;
+  recoveryStatus: string;
+  progressPercentage: number;
+  successfulRequests: number;
+  failedRequests: number;
+  recoveryAttempts: number;
+  errorMessage: string | null;
+  estimatedCompletion: Date | null;
+  updatedAt: Date;
+  /** `name@version` of the prompt template the simulation was generated with. */
+  promptTemplate: string | null;
+  personas: {
+    total: number;
+    processed: number;
+    remaining: number;
+  };
+  queueJob: {
+    jobId: string;
+    status: string;
+    progressPercentage: number;
+    retryCount: number;
+    maxRetries: number;
+    workerId: string | null;
+    leaseExpiresAt: Date | null;
+    errorMessage: string | null;
+    billing: JobBilling | null;
+    tokenUsage: JobTokenUsage | null;
+  } | null;
+}
+
+/** Stored under `metadata.tokenUsage` on the queue job, summed over all its runs. */
+export interface JobTokenUsage {
+  provider: string;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface SimulationSummary {
+  simulationId: string;
+  surveyId: number;
+  status: string;
+  recoveryStatus: string;
+  progressPercentage: number;
+  queueJobId: string | null;
+  updatedAt: Date;
+}
+
+export interface QueueJobSummary {
+  jobId: string;
+  surveyId: number;
+  status: string;
+  priority: number;
+  progressPercentage: number;
+  retryCount: number;
+  maxRetries: number;
+  workerId: string | null;
+  createdAt: Date;
+}
+
+export interface SimulationHistory {
+  recoveryLogs: Array<{
+    attempt: number;
+    status: string;
+    message: string | null;
+    processedPersonas: number;
+    remainingPersonas: number;
+    createdAt: Date;
+  }>;
+  transitions: Array<{
+    entityType: string;
+    fromStatus: string;
+    toStatus: string;
+    reason: string;
+    actor: string;
+    createdAt: Date;
+  }>;
+}
+
+interface CompletionOutcome {
+  status: 'COMPLETED' | 'PARTIAL';
+  failedPersonas: number;
+  message: string | null;
+}
+
+interface PersonaProgress {
+  processed: number;
+  remaining: number;
 }
 
 export class RecoveryService {
   private database: DatabaseService;
   private logger: LoggerService;
   private batchSize: number;
-  private maxRetries: number;
-
-  constructor(database: DatabaseService, logger: LoggerService) {
+  private workerId: string;
+  private leaseSeconds: number;
+  private heartbeatIntervalSeconds: number;
+  private staleSimulationSeconds: number;
+  private responseGenerator: ResponseGenerator;
+  private recoveryPolicy: RecoveryPolicy;
+  private metrics: MetricsService;
+  private stateMachine: SimulationStateMachine;
+  private billing: BillingService;
+  private prompts: PromptTemplateRegistry;
+  private personaMaxAttempts: number;
+  private personaLimiter: ConcurrencyLimiter;
+  private saveLimiter: ConcurrencyLimiter;
+  private maxPersonaFailureRate: number;
+  private dryRun: boolean;
+
+  constructor(
+    database: DatabaseService,
+    logger: LoggerService,
+    responseGenerator: ResponseGenerator,
+    metrics: MetricsService,
+    stateMachine: SimulationStateMachine,
+    billing: BillingService,
+    prompts: PromptTemplateRegistry,
+    config: RecoveryConfig,
+  ) {
     this.database = database;
     this.logger = logger;
-    this.batchSize = parseInt(process.env.BATCH_SIZE || '10');
-    this.maxRetries = parseInt(process.env.MAX_RETRIES || '3');
+    this.responseGenerator = responseGenerator;
+    this.metrics = metrics;
+    this.stateMachine = stateMachine;
+    this.billing = billing;
+    this.prompts = prompts;
+    this.batchSize = config.batchSize;
+    this.workerId = config.workerId;
+    this.leaseSeconds = config.jobLeaseSeconds;
+    this.heartbeatIntervalSeconds = config.heartbeatIntervalSeconds;
+    this.staleSimulationSeconds = config.staleSimulationMinutes * 60;
+    this.recoveryPolicy = RecoveryPolicy.fromConfig(config);
+    this.personaMaxAttempts = config.personaMaxAttempts;
+    this.personaLimiter = new ConcurrencyLimiter(config.personaConcurrency);
+    this.saveLimiter = new ConcurrencyLimiter(config.saveConcurrency ?? config.personaConcurrency);
+    this.maxPersonaFailureRate = config.maxPersonaFailureRate;
+    this.dryRun = config.dryRun;
   }
 
-  async processQueueJobs(): Promise<void> {
-    this.logger.info('🔄 Processing queue jobs...');
+  /**
+   * Claims and runs the next pending queue job. Returns true when a job was
+   * claimed (whether it succeeded or failed) so callers can keep draining the
+   * queue without waiting for the next poll.
+   */
+  async processQueueJobs(): Promise<boolean> {
+    this.logger.debug('🔄 Processing queue jobs...');
+
+    let job: QueueJob;
 
     try {
-      const prisma = this.database.getClient();
+      const claimed = await this.stateMachine.claimNextJob<QueueJob>(this.workerId, this.leaseSeconds);
 
-      // Get next job to process
-      const nextJob = await this.database.executeWithRetry(async () => {
-        return await prisma.$queryRaw<Array<{
-          id: number;
-          job_id: string;
-          survey_id: number;
-          user_id: number;
-          persona_count: number;
-          selected_persona_ids: number[];
-          is_random_selection: boolean;
-          status: string;
-          progress_percentage: number;
-          priority: number;
-          created_at: Date;
-          started_at?: Date;
-          completed_at?: Date;
-          failed_at?: Date;
-          retry_count: number;
-          max_retries: number;
-          error_message?: string;
-          metadata: any;
-        }>>`
-          SELECT 
-            id,
-            job_id,
-            survey_id,
-            user_id,
-            persona_count,
-            selected_persona_ids,
-            is_random_selection,
-            status,
-            progress_percentage,
-            priority,
-            created_at,
-            started_at,
-            completed_at,
-            failed_at,
-            retry_count,
-            max_retries,
-            error_message,
-            metadata
-          FROM simulation_queue_jobs
-          WHERE status = 'PENDING'
-          ORDER BY priority DESC, created_at ASC
-          LIMIT 1
-        `;
+      if (!claimed) {
+        this.logger.debug('📭 No pending jobs in queue');
+        return false;
+      }
+
+      job = claimed;
+    } catch (error) {
+      this.logger.error('❌ Error claiming queue job:', error);
+      return false;
+    }
+
+    this.logger.info(`🎯 Worker ${this.workerId} claimed job ${job.job_id} for survey ${job.survey_id}`);
+
+    const heartbeat = this.startHeartbeat(job.job_id);
+
+    try {
+      const outcome = await this.processSimulationJob(job, heartbeat);
+      const jobStatus = outcome.status === 'PARTIAL' ? 'PARTIALLY_COMPLETED' : 'COMPLETED';
+
+      // Completes the job only while we still own it; a lost lease surfaces
+      // as LeaseLostError below.
+      await this.stateMachine.transition({
+        simulationId: outcome.simulationId,
+        to: 'COMPLETED',
+        data: { progress_percentage: 100, error_message: outcome.message },
+        surveyData: { simulation_completed_at: new Date() },
+        job: {
+          to: jobStatus,
+          ownedBy: this.workerId,
+          data: {
+            completed_at: new Date(),
+            progress_percentage: 100,
+            error_message: outcome.message,
+            worker_id: null,
+            lease_expires_at: null,
+          },
+        },
+        reason: outcome.message ?? 'All personas processed',
+        actor: this.workerId,
       });
 
-      if (!nextJob || nextJob.length === 0) {
-        this.logger.info('📭 No pending jobs in queue');
-        return;
+      if (outcome.status === 'PARTIAL') {
+        this.logger.warn(`⚠️ Job ${job.job_id} completed with failures: ${outcome.message}`);
+      } else {
+        this.logger.info(`✅ Job ${job.job_id} completed successfully`);
+      }
+
+    } catch (error) {
+      if (error instanceof SimulationCancelledError || error instanceof LeaseLostError) {
+        this.logger.warn(`🛑 Job ${job.job_id} stopped: ${error.message}`);
+        return true;
       }
 
-      const job = nextJob[0];
-      this.logger.info(`🎯 Processing job ${job.job_id} for survey ${job.survey_id}`);
+      this.logger.error(`❌ Job ${job.job_id} failed:`, error);
+      await this.markJobFailed(job, error);
+    } finally {
+      heartbeat.stop();
+    }
 
-      // Mark as processing
-      await this.database.executeWithRetry(async () => {
-        await prisma.$executeRaw`
-          UPDATE simulation_queue_jobs
-          SET "status" = 'PROCESSING', "started_at" = NOW()
-          WHERE "id" = ${job.id}
-        `;
-      });
+    return true;
+  }
 
-      // Update simulation status to RUNNING
-      await this.database.executeWithRetry(async () => {
-        await prisma.$executeRaw`
-          UPDATE simulations
-          SET "status" = 'RUNNING'::"SimulationStatus", "updated_at" = NOW()
-          WHERE "queue_job_id" = ${job.job_id}
-        `;
+  private async processSimulationJob(
+    job: QueueJob,
+    heartbeat: JobHeartbeat,
+  ): Promise<CompletionOutcome & { simulationId: string }> {
+    this.logger.info(`🚀 Processing simulation for survey ${job.survey_id} with ${job.persona_count} personas`);
+
+    const simulation = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.simulations.findFirst({
+        where: { queue_job_id: job.job_id },
       });
+    });
 
-      // Process the simulation (simplified version)
-      await this.processSimulationJob(job);
+    if (!simulation) {
+      throw new Error(`No simulation found for queue job ${job.job_id}`);
+    }
 
-      // Mark as completed
-      await this.database.executeWithRetry(async () => {
-        await prisma.$executeRaw`
-          UPDATE simulation_queue_jobs
-          SET "status" = 'COMPLETED', "completed_at" = NOW(), "progress_percentage" = 100
-          WHERE "id" = ${job.id}
-        `;
+    const questions = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.question.findMany({
+        where: { surveyId: job.survey_id },
+        include: { Option: true },
+        orderBy: { order: 'asc' },
       });
+    });
 
-      // Update simulation status to COMPLETED
-      await this.database.executeWithRetry(async () => {
-        await prisma.$executeRaw`
-          UPDATE simulations
-          SET "status" = 'COMPLETED'::"SimulationStatus", "updated_at" = NOW(), "progress_percentage" = 100
-          WHERE "queue_job_id" = ${job.job_id}
-        `;
+    if (questions.length === 0) {
+      throw new Error(`Survey ${job.survey_id} has no questions`);
+    }
+
+    const personaIds = await this.resolvePersonaIds(job, simulation.selected_persona_ids);
+
+    if (personaIds.length === 0) {
+      throw new Error(`No personas available for job ${job.job_id}`);
+    }
+
+    // A simulation keeps the template of its first run so retries stay reproducible
+    const template = this.prompts.resolve(simulation.prompt_template ?? job.metadata?.promptTemplate);
+
+    // Skip personas answered by an earlier, interrupted attempt
+    const completedPersonaIds = await this.getCompletedPersonaIds(simulation.simulationId);
+    const remainingPersonaIds = personaIds.filter((id) => !completedPersonaIds.includes(id));
+    const completedCount = personaIds.length - remainingPersonaIds.length;
+    const counters = await this.database.executeWithRetry((prisma) => {
+      return this.countRequests(prisma, simulation.simulationId, questions.length);
+    });
+
+    // Persist the resolved persona set so recovery can resume the same run.
+    // One request is one persona answering one question.
+    await this.stateMachine.transition({
+      simulationId: simulation.simulationId,
+      to: 'RUNNING',
+      data: {
+        selected_persona_ids: personaIds,
+        selected_persona_count: personaIds.length,
+        total_requests: personaIds.length * questions.length,
+        successful_requests: counters.successfulRequests,
+        failed_requests: counters.failedRequests,
+        progress_percentage: this.progressPercentage(completedCount, personaIds.length),
+        error_message: null,
+        prompt_template: templateId(template),
+      },
+      surveyData: {
+        simulation_started_at: new Date(),
+        total_personas: personaIds.length,
+        processed_personas: completedCount,
+      },
+      job: { to: 'PROCESSING', ownedBy: this.workerId, data: { selected_persona_ids: personaIds } },
+      reason: 'Processing started',
+      actor: this.workerId,
+    });
+
+    const personas = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.personas.findMany({
+        where: { id: { in: remainingPersonaIds } },
       });
+    });
 
-      this.logger.info(`✅ Job ${job.job_id} completed successfully`);
+    this.logger.info(`Simulation ${simulation.simulationId}: ${personas.length} of ${personaIds.length} personas remaining`);
+
+    await this.processRemainingPersonas(
+      job.survey_id,
+      simulation.simulationId,
+      questions,
+      personas,
+      {
+        totalPersonas: personaIds.length,
+        processedPersonas: completedCount,
+        queueJobId: job.job_id,
+        heartbeat,
+        template,
+      },
+    );
 
-    } catch (error) {
-      this.logger.error('❌ Error processing queue jobs:', error);
+    this.logger.info(`✅ Simulation processing completed for survey ${job.survey_id}`);
+
+    const outcome = await this.assessCompletion(simulation.simulationId, personaIds.length, questions.length);
+    return { ...outcome, simulationId: simulation.simulationId };
+  }
+
+  private async resolvePersonaIds(job: QueueJob, simulationPersonaIds: number[]): Promise<number[]> {
+    if (job.selected_persona_ids && job.selected_persona_ids.length > 0) {
+      return job.selected_persona_ids;
     }
+
+    if (simulationPersonaIds.length > 0) {
+      return simulationPersonaIds;
+    }
+
+    if (!job.is_random_selection) {
+      return [];
+    }
+
+    const rows = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.$queryRaw<Array<{ id: number }>>`
+        SELECT id FROM personas ORDER BY random() LIMIT ${job.persona_count}
+      `;
+    });
+
+    return rows.map((row) => row.id);
   }
 
-  private async processSimulationJob(job: any): Promise<void> {
-    this.logger.info(`🚀 Processing simulation for survey ${job.survey_id} with ${job.persona_count} personas`);
-    
-    // This is a simplified simulation processing
-    // In a real implementation, you would:
-    // 1. Get survey questions
-    // 2. Generate responses for each persona
-    // 3. Save responses to database
-    // 4. Update progress
-    
-    // For now, just simulate some work
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    this.logger.info(`✅ Simulation processing completed for survey ${job.survey_id}`);
+  private async markJobFailed(job: QueueJob, error: unknown): Promise<void> {
+    const message = this.errorMessage(error);
+    const jobChange = {
+      to: 'FAILED' as const,
+      ownedBy: this.workerId,
+      data: {
+        failed_at: new Date(),
+        error_message: message,
+        retry_count: { increment: 1 },
+        worker_id: null,
+        lease_expires_at: null,
+      },
+    };
+
+    try {
+      const simulation = await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.simulations.findFirst({
+          where: { queue_job_id: job.job_id },
+          select: { simulationId: true },
+        });
+      });
+
+      if (simulation) {
+        await this.stateMachine.transition({
+          simulationId: simulation.simulationId,
+          to: 'FAILED',
+          data: { error_message: message },
+          job: jobChange,
+          reason: message,
+          actor: this.workerId,
+        });
+      } else {
+        await this.stateMachine.transitionJob({ jobId: job.job_id, ...jobChange, reason: message, actor: this.workerId });
+      }
+    } catch (updateError) {
+      this.logger.error(`❌ Failed to mark job ${job.job_id} as failed:`, updateError);
+    }
   }
 
-  async checkAndRecoverFailedSimulations(): Promise<RecoveryResult> {
-    this.logger.info('🔍 Checking for failed simulations to recover...');
+  async checkAndRecoverFailedSimulations(options: RecoveryRunOptions = {}): Promise<RecoveryResult> {
+    const dryRun = options.dryRun ?? this.dryRun;
+    this.logger.info(`🔍 Checking for failed simulations to recover${dryRun ? ' (dry run)' : ''}...`);
 
     let recovered = 0;
     let failed = 0;
+    let deferred = 0;
+    let deadLettered = 0;
     const issues: string[] = [];
     const recommendations: string[] = [];
+    const actions: RecoveryAction[] = [];
 
     try {
-      const prisma = this.database.getClient();
-
       // Find failed simulations that can be retried
-      const failedSimulations = await this.database.executeWithRetry(async () => {
+      const failedSimulations = await this.database.executeWithRetry(async (prisma) => {
         return await prisma.$queryRaw<Array<{
           id: number;
           simulationId: string;
@@ -169,6 +477,11 @@ export class RecoveryService {
           max_retries: number;
           error_message: string;
           queue_job_id: string;
+          selected_persona_ids: number[];
+          updatedAt: Date;
+          job_retry_count: number | null;
+          recovery_attempts: number;
+          last_recovery_attempt: Date | null;
         }>>`
           SELECT 
             s.id,
@@ -177,13 +490,17 @@ export class RecoveryService {
             s."status",
             s."retry_count",
             s."queue_job_id",
+            s."selected_persona_ids",
+            s."updated_at" as "updatedAt",
+            s."recovery_attempts",
+            s."last_recovery_attempt",
             qj."retry_count" as job_retry_count,
             qj."max_retries",
             qj."error_message"
           FROM simulations s
           LEFT JOIN simulation_queue_jobs qj ON s."queue_job_id" = qj."job_id"
           WHERE s."status" = 'FAILED'
-          AND (qj."retry_count" < qj."max_retries" OR qj."retry_count" IS NULL)
+          AND s."recovery_status" NOT IN ('DEAD_LETTER', 'CANCELLED')
           AND s."created_at" > NOW() - INTERVAL '24 hours'
         `;
       });
@@ -196,50 +513,118 @@ export class RecoveryService {
           total: 0,
           status: 'HEALTHY',
           issues: [],
-          recommendations: []
+          recommendations: [],
+          dryRun,
+          actions,
         };
       }
 
       this.logger.info(`Found ${failedSimulations.length} failed simulations to recover`);
 
       for (const simulation of failedSimulations) {
+        if (options.signal?.aborted) {
+          issues.push('Stopped early: the run exceeded its time limit');
+          break;
+        }
+
+        const decision = this.recoveryPolicy.evaluate({
+          recoveryAttempts: simulation.recovery_attempts,
+          lastRecoveryAttempt: simulation.last_recovery_attempt,
+          jobRetryCount: simulation.job_retry_count,
+          jobMaxRetries: simulation.max_retries,
+        });
+
+        if (decision.action === 'WAIT') {
+          deferred++;
+          actions.push(this.waitAction(simulation.simulationId, decision.nextAttemptAt));
+          this.logger.debug(`⏳ Simulation ${simulation.simulationId} backing off until ${decision.nextAttemptAt.toISOString()}`);
+          continue;
+        }
+
+        if (decision.action === 'DEAD_LETTER') {
+          if (dryRun || await this.deadLetterSimulation(simulation, decision.reason, simulation.error_message)) {
+            deadLettered++;
+            actions.push({ type: 'DEAD_LETTER', simulationId: simulation.simulationId, jobId: simulation.queue_job_id ?? undefined, detail: decision.reason });
+          } else {
+            failed++;
+          }
+          continue;
+        }
+
+        if (dryRun) {
+          recovered++;
+          actions.push({
+            type: 'REQUEUE',
+            simulationId: simulation.simulationId,
+            jobId: simulation.queue_job_id ?? undefined,
+            detail: `Reset FAILED to PENDING: ${simulation.error_message ?? 'no error recorded'}`,
+          });
+          continue;
+        }
+
+        let progress: PersonaProgress = { processed: 0, remaining: simulation.selected_persona_ids.length };
+        let attempt: number | null = null;
+
         try {
-          // Reset simulation status to PENDING
-          await this.database.executeWithRetry(async () => {
-            await prisma.$executeRaw`
-              UPDATE simulations
-              SET "status" = 'PENDING'::"SimulationStatus", "updated_at" = NOW(), "error_message" = NULL
-              WHERE "id" = ${simulation.id}
-            `;
+          progress = await this.getPersonaProgress(simulation.simulationId, simulation.selected_persona_ids);
+          attempt = await this.beginRecoveryAttempt(
+            simulation.id,
+            progress,
+            `Retrying failed simulation: ${simulation.error_message ?? 'no error recorded'}`,
+            simulation.updatedAt,
+          );
+
+          // Requeue the simulation and its job. retry_count was already
+          // incremented when the job failed, so it is kept as-is.
+          await this.stateMachine.transition({
+            simulationId: simulation.simulationId,
+            to: 'PENDING',
+            data: { error_message: null },
+            job: { to: 'PENDING', data: { error_message: null, failed_at: null } },
+            reason: 'Failed simulation requeued',
+            actor: this.workerId,
           });
 
-          // Reset queue job status to PENDING if it exists
-          if (simulation.queue_job_id) {
-            await this.database.executeWithRetry(async () => {
-              await prisma.$executeRaw`
-                UPDATE simulation_queue_jobs
-                SET "status" = 'PENDING', "retry_count" = 0, "error_message" = NULL, "failed_at" = NULL
-                WHERE "job_id" = ${simulation.queue_job_id}
-              `;
-            });
-          }
+          await this.logRecoveryOutcome(simulation.id, attempt, 'RESET_TO_PENDING', progress, 'Failed simulation requeued');
 
           recovered++;
+          actions.push({
+            type: 'REQUEUE',
+            simulationId: simulation.simulationId,
+            jobId: simulation.queue_job_id ?? undefined,
+            detail: 'Reset FAILED to PENDING',
+          });
           this.logger.info(`✅ Recovered simulation ${simulation.simulationId}`);
 
         } catch (error) {
           failed++;
           this.logger.error(`❌ Failed to recover simulation ${simulation.simulationId}:`, error);
+          if (attempt !== null) {
+            await this.logRecoveryOutcome(simulation.id, attempt, 'FAILED', progress, this.errorMessage(error));
+          }
         }
       }
 
+      if (failed > 0) {
+        issues.push(`Failed to recover ${failed} simulations`);
+        recommendations.push('Check logs for specific error details');
+      }
+      if (deadLettered > 0) {
+        issues.push(`${deadLettered} simulations moved to DEAD_LETTER`);
+        recommendations.push('Inspect dead-lettered simulations and retry them manually');
+      }
+
       return {
         recovered,
         failed,
         total: failedSimulations.length,
-        status: failed > 0 ? 'WARNING' : 'HEALTHY',
-        issues: failed > 0 ? [`Failed to recover ${failed} simulations`] : [],
-        recommendations: failed > 0 ? ['Check logs for specific error details'] : []
+        status: failed > 0 || deadLettered > 0 ? 'WARNING' : 'HEALTHY',
+        issues,
+        recommendations,
+        deferred,
+        deadLettered,
+        dryRun,
+        actions,
       };
 
     } catch (error) {
@@ -250,97 +635,190 @@ export class RecoveryService {
         total: 1,
         status: 'UNHEALTHY',
         issues: ['Recovery process failed'],
-        recommendations: ['Check database connection and logs']
+        recommendations: ['Check database connection and logs'],
+        dryRun,
       };
     }
   }
 
-  async checkAndRecoverStuckSimulations(): Promise<RecoveryResult> {
-    this.logger.info('🔍 Checking for stuck simulations...');
+  /**
+   * Requeues stale RUNNING simulations (see staleRunningCondition): the job
+   * goes back to the queue and the scheduler hands it to a worker, which
+   * skips the personas already answered. PROCESSING jobs that are stale and
+   * have no RUNNING simulation are requeued (or dead-lettered) on their own.
+   */
+  async checkAndRecoverStuckSimulations(options: RecoveryRunOptions = {}): Promise<RecoveryResult> {
+    const dryRun = options.dryRun ?? this.dryRun;
+    this.logger.info(`🔍 Checking for stuck simulations${dryRun ? ' (dry run)' : ''}...`);
 
     let recovered = 0;
     let failed = 0;
+    let deferred = 0;
+    let deadLettered = 0;
     const issues: string[] = [];
     const recommendations: string[] = [];
+    const actions: RecoveryAction[] = [];
 
     try {
-      const prisma = this.database.getClient();
-
-      // Find simulations that are stuck in RUNNING status
-      const stuckSimulations = await this.database.executeWithRetry(async () => {
+      // Find RUNNING simulations whose worker stopped renewing the job's lease
+      const stuckSimulations = await this.database.executeWithRetry(async (prisma) => {
         return await prisma.$queryRaw<Array<{
           id: number;
           simulationId: string;
           surveyId: number;
           status: string;
-          updatedAt: Date;
+          lastSeenAt: Date;
           queue_job_id: string;
+          selected_persona_ids: number[];
+          recovery_attempts: number;
+          last_recovery_attempt: Date | null;
+          job_retry_count: number | null;
+          max_retries: number | null;
+          error_message: string | null;
         }>>`
           SELECT 
             s.id,
             s."simulation_id" as "simulationId",
             s."survey_id" as "surveyId",
             s."status",
-            s."updated_at" as "updatedAt",
-            s."queue_job_id"
+            COALESCE(qj."heartbeat_at", s."updated_at") as "lastSeenAt",
+            s."queue_job_id",
+            s."selected_persona_ids",
+            s."recovery_attempts",
+            s."last_recovery_attempt",
+            qj."retry_count" as job_retry_count,
+            qj."max_retries",
+            COALESCE(qj."error_message", s."error_message") as error_message
           FROM simulations s
+          LEFT JOIN simulation_queue_jobs qj ON s."queue_job_id" = qj."job_id"
           WHERE s."status" = 'RUNNING'
-          AND s."updated_at" < NOW() - INTERVAL '10 minutes'
+          AND ${this.staleRunningCondition()}
         `;
       });
 
       if (stuckSimulations.length === 0) {
         this.logger.info('✅ No stuck simulations found');
-        return {
-          recovered: 0,
-          failed: 0,
-          total: 0,
-          status: 'HEALTHY',
-          issues: [],
-          recommendations: []
-        };
+      } else {
+        this.logger.info(`Found ${stuckSimulations.length} stuck simulations`);
       }
 
-      this.logger.info(`Found ${stuckSimulations.length} stuck simulations`);
-
       for (const simulation of stuckSimulations) {
+        if (options.signal?.aborted) {
+          issues.push('Stopped early: the run exceeded its time limit');
+          break;
+        }
+
+        const decision = this.recoveryPolicy.evaluate({
+          recoveryAttempts: simulation.recovery_attempts,
+          lastRecoveryAttempt: simulation.last_recovery_attempt,
+          jobRetryCount: simulation.job_retry_count,
+          jobMaxRetries: simulation.max_retries,
+        });
+
+        if (decision.action === 'WAIT') {
+          deferred++;
+          actions.push(this.waitAction(simulation.simulationId, decision.nextAttemptAt));
+          this.logger.debug(`⏳ Stuck simulation ${simulation.simulationId} backing off until ${decision.nextAttemptAt.toISOString()}`);
+          continue;
+        }
+
+        if (decision.action === 'DEAD_LETTER') {
+          const lastError = simulation.error_message ?? 'Simulation repeatedly stuck in RUNNING';
+          if (dryRun || await this.deadLetterSimulation(simulation, decision.reason, lastError)) {
+            deadLettered++;
+            actions.push({ type: 'DEAD_LETTER', simulationId: simulation.simulationId, jobId: simulation.queue_job_id ?? undefined, detail: decision.reason });
+          } else {
+            failed++;
+          }
+          continue;
+        }
+
+        if (dryRun) {
+          recovered++;
+          actions.push({
+            type: 'REQUEUE',
+            simulationId: simulation.simulationId,
+            jobId: simulation.queue_job_id ?? undefined,
+            detail: `Reset RUNNING to PENDING, last seen ${simulation.lastSeenAt.toISOString()}`,
+          });
+          continue;
+        }
+
+        let progress: PersonaProgress = { processed: 0, remaining: simulation.selected_persona_ids.length };
+        let attempt: number | null = null;
+
         try {
-          // Reset simulation status to PENDING for retry
-          await this.database.executeWithRetry(async () => {
-            await prisma.$executeRaw`
-              UPDATE simulations
-              SET "status" = 'PENDING'::"SimulationStatus", "updated_at" = NOW(), "error_message" = 'Recovered from stuck state'
-              WHERE "id" = ${simulation.id}
-            `;
+          progress = await this.getPersonaProgress(simulation.simulationId, simulation.selected_persona_ids);
+          attempt = await this.beginRecoveryAttempt(
+            simulation.id,
+            progress,
+            `Simulation stuck in RUNNING; last seen ${simulation.lastSeenAt.toISOString()}`,
+            simulation.lastSeenAt,
+          );
+
+          // Requeue the simulation and release its job's lease
+          await this.stateMachine.transition({
+            simulationId: simulation.simulationId,
+            to: 'PENDING',
+            data: { error_message: 'Recovered from stuck state' },
+            job: {
+              to: 'PENDING',
+              data: {
+                retry_count: { increment: 1 },
+                error_message: 'Recovered from stuck state',
+                failed_at: null,
+                worker_id: null,
+                lease_expires_at: null,
+                heartbeat_at: null,
+              },
+            },
+            reason: 'Stuck simulation requeued',
+            actor: this.workerId,
           });
 
-          // Reset queue job status to PENDING if it exists
-          if (simulation.queue_job_id) {
-            await this.database.executeWithRetry(async () => {
-              await prisma.$executeRaw`
-                UPDATE simulation_queue_jobs
-                SET "status" = 'PENDING', "retry_count" = 0, "error_message" = 'Recovered from stuck state', "failed_at" = NULL
-                WHERE "job_id" = ${simulation.queue_job_id}
-              `;
-            });
-          }
+          await this.logRecoveryOutcome(simulation.id, attempt, 'RESET_TO_PENDING', progress, 'Stuck simulation requeued');
 
           recovered++;
+          actions.push({
+            type: 'REQUEUE',
+            simulationId: simulation.simulationId,
+            jobId: simulation.queue_job_id ?? undefined,
+            detail: 'Reset RUNNING to PENDING',
+          });
           this.logger.info(`✅ Recovered stuck simulation ${simulation.simulationId}`);
 
         } catch (error) {
           failed++;
           this.logger.error(`❌ Failed to recover stuck simulation ${simulation.simulationId}:`, error);
+          if (attempt !== null) {
+            await this.logRecoveryOutcome(simulation.id, attempt, 'FAILED', progress, this.errorMessage(error));
+          }
         }
       }
 
+      // Jobs whose simulation is gone or not RUNNING
+      await this.recoverStuckQueueJobs(dryRun, actions);
+
+      if (failed > 0) {
+        issues.push(`Failed to recover ${failed} stuck simulations`);
+        recommendations.push('Check logs for specific error details');
+      }
+      if (deadLettered > 0) {
+        issues.push(`${deadLettered} stuck simulations moved to DEAD_LETTER`);
+        recommendations.push('Inspect dead-lettered simulations and retry them manually');
+      }
+
       return {
         recovered,
         failed,
         total: stuckSimulations.length,
-        status: failed > 0 ? 'WARNING' : 'HEALTHY',
-        issues: failed > 0 ? [`Failed to recover ${failed} stuck simulations`] : [],
-        recommendations: failed > 0 ? ['Check logs for specific error details'] : []
+        status: failed > 0 || deadLettered > 0 ? 'WARNING' : 'HEALTHY',
+        issues,
+        recommendations,
+        deferred,
+        deadLettered,
+        dryRun,
+        actions,
       };
 
     } catch (error) {
@@ -351,67 +829,133 @@ export class RecoveryService {
         total: 1,
         status: 'UNHEALTHY',
         issues: ['Stuck simulation recovery process failed'],
-        recommendations: ['Check database connection and logs']
+        recommendations: ['Check database connection and logs'],
+        dryRun,
       };
     }
   }
 
-  async checkAndRecoverIncompleteSimulations(): Promise<RecoveryResult> {
-    this.logger.info('🔍 Starting simulation recovery process...');
+  /**
+   * Resumes stale RUNNING simulations in this process: it takes over their
+   * queue job's lease and answers the personas that have no responses yet.
+   * Simulations whose job lease is still held are left to their worker.
+   */
+  async checkAndRecoverIncompleteSimulations(options: RecoveryRunOptions = {}): Promise<RecoveryResult> {
+    const dryRun = options.dryRun ?? this.dryRun;
+    this.logger.info(`🔍 Starting simulation recovery process${dryRun ? ' (dry run)' : ''}...`);
 
     // Add initial delay to prevent immediate retries
-    await this.delay(5000); // 5 second delay
+    if (!dryRun) {
+      await this.delay(5000); // 5 second delay
+    }
 
     let recovered = 0;
     let failed = 0;
+    let deferred = 0;
+    let deadLettered = 0;
     const issues: string[] = [];
     const recommendations: string[] = [];
+    const actions: RecoveryAction[] = [];
 
     try {
-      const prisma = this.database.getClient();
-
-      // Find simulations that are in RUNNING status but might be incomplete
-      const incompleteSimulations = await this.database.executeWithRetry(async () => {
-        return await prisma.simulations.findMany({
-          where: {
-            status: 'RUNNING',
-            createdAt: {
-              lt: new Date(Date.now() - 5 * 60 * 1000), // Older than 5 minutes
-            },
-          },
+      const { incompleteSimulations, lastSeenAt } = await this.database.executeWithRetry(async (prisma) => {
+        const stale = await prisma.$queryRaw<Array<{ id: number; lastSeenAt: Date }>>`
+          SELECT s.id, COALESCE(qj."heartbeat_at", s."updated_at") as "lastSeenAt"
+          FROM simulations s
+          LEFT JOIN simulation_queue_jobs qj ON s."queue_job_id" = qj."job_id"
+          WHERE s."status" = 'RUNNING'
+          AND ${this.staleRunningCondition()}
+        `;
+        const simulations = await prisma.simulations.findMany({
+          where: { id: { in: stale.map((row) => row.id) } },
         });
+        return { incompleteSimulations: simulations, lastSeenAt: new Map(stale.map((row) => [row.id, row.lastSeenAt])) };
       });
 
       this.logger.info(`Found ${incompleteSimulations.length} potentially incomplete simulations`);
 
       for (const simulation of incompleteSimulations) {
+        if (options.signal?.aborted) {
+          issues.push('Stopped early: the run exceeded its time limit');
+          break;
+        }
+
+        const decision = this.recoveryPolicy.evaluate({
+          recoveryAttempts: simulation.recovery_attempts,
+          lastRecoveryAttempt: simulation.last_recovery_attempt,
+        });
+
+        if (decision.action === 'WAIT') {
+          deferred++;
+          actions.push(this.waitAction(simulation.simulationId, decision.nextAttemptAt));
+          this.logger.debug(`⏳ Simulation ${simulation.simulationId} backing off until ${decision.nextAttemptAt.toISOString()}`);
+          continue;
+        }
+
+        if (decision.action === 'DEAD_LETTER') {
+          if (dryRun || await this.deadLetterSimulation(simulation, decision.reason, simulation.error_message)) {
+            deadLettered++;
+            actions.push({ type: 'DEAD_LETTER', simulationId: simulation.simulationId, jobId: simulation.queue_job_id ?? undefined, detail: decision.reason });
+          } else {
+            failed++;
+          }
+          continue;
+        }
+
+        if (dryRun) {
+          const progress = await this.getPersonaProgress(simulation.simulationId, simulation.selected_persona_ids);
+          recovered++;
+          actions.push({
+            type: 'RESUME',
+            simulationId: simulation.simulationId,
+            jobId: simulation.queue_job_id ?? undefined,
+            detail: `Resume in this process with ${progress.remaining} of ${simulation.selected_persona_ids.length} personas remaining`,
+          });
+          continue;
+        }
+
         try {
-          await this.resumeIncompleteSimulation(simulation);
+          if (!(await this.resumeIncompleteSimulation(simulation, lastSeenAt.get(simulation.id) ?? simulation.updatedAt))) {
+            deferred++;
+            continue;
+          }
           recovered++;
-          
+          actions.push({
+            type: 'RESUME',
+            simulationId: simulation.simulationId,
+            jobId: simulation.queue_job_id ?? undefined,
+            detail: 'Resumed in this process',
+          });
+
           // Add delay between recovery attempts to prevent overwhelming the system
           await this.delay(2000); // 2 second delay
         } catch (error) {
           this.logger.error(`Failed to recover simulation ${simulation.simulationId}:`, error);
           failed++;
-          issues.push(`Simulation ${simulation.simulationId} failed to recover: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          
+          issues.push(`Simulation ${simulation.simulationId} failed to recover: ${this.errorMessage(error)}`);
+
           // Add delay even for failed attempts
           await this.delay(1000); // 1 second delay
         }
       }
 
       // Check for stuck queue jobs
-      await this.recoverStuckQueueJobs();
+      await this.recoverStuckQueueJobs(dryRun, actions);
 
       // Determine overall status
       let status: 'HEALTHY' | 'UNHEALTHY' | 'WARNING' = 'HEALTHY';
-      
+
       if (failed > 0) {
         status = failed > recovered ? 'UNHEALTHY' : 'WARNING';
         recommendations.push('Check simulation logs and manually retry failed simulations');
       }
 
+      if (deadLettered > 0) {
+        if (status === 'HEALTHY') status = 'WARNING';
+        issues.push(`${deadLettered} simulations moved to DEAD_LETTER`);
+        recommendations.push('Inspect dead-lettered simulations and retry them manually');
+      }
+
       if (incompleteSimulations.length === 0) {
         this.logger.info('✅ No incomplete simulations found');
       } else {
@@ -424,10 +968,14 @@ export class RecoveryService {
         total: incompleteSimulations.length,
         status,
         issues,
-        recommendations
+        recommendations,
+        deferred,
+        deadLettered,
+        dryRun,
+        actions,
       };
 
-      this.logger.info('📊 Recovery Summary:', result);
+      this.logger.info('📊 Recovery Summary:', { ...result, actions: actions.length });
       return result;
 
     } catch (error) {
@@ -437,244 +985,556 @@ export class RecoveryService {
         failed: 1,
         total: 1,
         status: 'UNHEALTHY',
-        issues: [`Recovery process failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
-        recommendations: ['Check database connection and service logs']
+        issues: [`Recovery process failed: ${this.errorMessage(error)}`],
+        recommendations: ['Check database connection and service logs'],
+        dryRun,
       };
     }
   }
 
-  private async resumeIncompleteSimulation(simulation: any): Promise<void> {
+  /**
+   * Resumes a stale RUNNING simulation in this process. Returns false when its
+   * queue job could not be leased because another worker picked it up.
+   */
+  private async resumeIncompleteSimulation(simulation: simulations, lastSeenAt: Date): Promise<boolean> {
     const simulationId = simulation.simulationId;
     this.logger.info(`Attempting to resume incomplete simulation: ${simulationId}`);
 
-    const prisma = this.database.getClient();
+    let attempt: number | null = null;
+    let heartbeat: JobHeartbeat | null = null;
+
+    if (simulation.queue_job_id) {
+      if (!(await this.stateMachine.takeOverJob(simulation.queue_job_id, this.workerId, this.leaseSeconds))) {
+        this.logger.info(`Job ${simulation.queue_job_id} of simulation ${simulationId} is leased by another worker, skipping`);
+        return false;
+      }
+      heartbeat = this.startHeartbeat(simulation.queue_job_id);
+    }
 
     try {
-        // Get questions using the correct table name (Question capitalized)
-        const questions = await this.database.executeWithRetry(async () => {
-          return await prisma.question.findMany({
-            where: { surveyId: simulation.surveyId },
-            include: { Option: true },
-            orderBy: { order: 'asc' },
-          });
+      const questions = await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.question.findMany({
+          where: { surveyId: simulation.surveyId },
+          include: { Option: true },
+          orderBy: { order: 'asc' },
+        });
       });
 
-      // Get completed persona IDs
       const completedPersonaIds = await this.getCompletedPersonaIds(simulationId);
       const allSelectedPersonaIds = simulation.selected_persona_ids;
+      const remainingPersonaIds = allSelectedPersonaIds.filter((id) => !completedPersonaIds.includes(id));
 
-      const remainingPersonaIds = allSelectedPersonaIds.filter(
-        (id: number) => !completedPersonaIds.includes(id),
+      attempt = await this.beginRecoveryAttempt(
+        simulation.id,
+        { processed: allSelectedPersonaIds.length - remainingPersonaIds.length, remaining: remainingPersonaIds.length },
+        `Resuming incomplete simulation; last seen ${lastSeenAt.toISOString()}`,
+        lastSeenAt,
       );
 
-      if (remainingPersonaIds.length === 0) {
-        this.logger.info(`Simulation ${simulationId} has no remaining personas to process. Marking as COMPLETED.`);
-        
-        await this.database.executeWithRetry(async () => {
-          return await prisma.simulations.update({
-            where: { simulationId },
-            data: {
-              status: 'COMPLETED',
-              progress_percentage: 100,
-              updatedAt: new Date(),
-              recovery_status: 'COMPLETED',
-            },
-          });
-        });
-        return;
-      }
+      const template = this.prompts.resolve(simulation.prompt_template);
 
-      this.logger.info(`Found ${remainingPersonaIds.length} remaining personas for simulation ${simulationId}`);
+      await this.stateMachine.transition({
+        simulationId,
+        to: 'RUNNING',
+        recoveryStatus: 'IN_PROGRESS',
+        data: { resumed_at: new Date(), prompt_template: templateId(template) },
+        reason: 'Resuming incomplete simulation',
+        actor: this.workerId,
+      });
+
+      if (remainingPersonaIds.length > 0) {
+        this.logger.info(`Found ${remainingPersonaIds.length} remaining personas for simulation ${simulationId}`);
 
-      // Get remaining personas data
-      const remainingPersonasData = await this.database.executeWithRetry(async () => {
-        return await prisma.personas.findMany({
-          where: { id: { in: remainingPersonaIds } },
+        const remainingPersonas = await this.database.executeWithRetry(async (prisma) => {
+          return await prisma.personas.findMany({
+            where: { id: { in: remainingPersonaIds } },
+          });
         });
-      });
 
-      // Update simulation status to IN_PROGRESS for recovery
-      await this.database.executeWithRetry(async () => {
-        return await prisma.simulations.update({
-          where: { simulationId },
-          data: {
-            recovery_status: 'IN_PROGRESS',
-            resumed_at: new Date(),
+        await this.processRemainingPersonas(
+          simulation.surveyId,
+          simulationId,
+          questions,
+          remainingPersonas,
+          {
+            totalPersonas: allSelectedPersonaIds.length,
+            processedPersonas: allSelectedPersonaIds.length - remainingPersonaIds.length,
+            queueJobId: simulation.queue_job_id,
+            heartbeat,
+            template,
           },
-        });
-      });
+        );
+      } else {
+        this.logger.info(`Simulation ${simulationId} has no remaining personas to process`);
+      }
 
-      // Process remaining personas in batches
-      await this.processRemainingPersonas(
-        simulation.surveyId,
-        simulationId,
-        questions,
-        remainingPersonasData,
-      );
+      const outcome = await this.assessCompletion(simulationId, allSelectedPersonaIds.length, questions.length);
 
-      // Mark as completed
-      await this.database.executeWithRetry(async () => {
-        return await prisma.simulations.update({
-          where: { simulationId },
+      await this.stateMachine.transition({
+        simulationId,
+        to: 'COMPLETED',
+        recoveryStatus: 'COMPLETED',
+        data: { progress_percentage: 100, error_message: outcome.message, resumed_at: new Date() },
+        surveyData: { simulation_completed_at: new Date() },
+        job: {
+          to: outcome.status === 'PARTIAL' ? 'PARTIALLY_COMPLETED' : 'COMPLETED',
+          ownedBy: this.workerId,
           data: {
-            recovery_status: 'COMPLETED',
-            resumed_at: new Date(),
+            completed_at: new Date(),
+            progress_percentage: 100,
+            error_message: outcome.message,
+            worker_id: null,
+            lease_expires_at: null,
           },
-        });
+        },
+        reason: outcome.message ?? 'Resumed simulation completed',
+        actor: this.workerId,
       });
 
+      await this.logRecoveryOutcome(
+        simulation.id,
+        attempt,
+        outcome.status,
+        await this.getPersonaProgress(simulationId, allSelectedPersonaIds),
+        outcome.message ?? `Processed ${remainingPersonaIds.length} remaining personas`,
+      );
+
       this.logger.info(`✅ Successfully resumed simulation ${simulationId}`);
+      return true;
 
     } catch (error) {
+      if (error instanceof SimulationCancelledError || error instanceof LeaseLostError) {
+        this.logger.warn(`🛑 Stopped resuming simulation ${simulationId}: ${error.message}`);
+        if (attempt !== null) {
+          const status = error instanceof SimulationCancelledError ? 'CANCELLED' : 'LEASE_LOST';
+          await this.logRecoveryOutcome(simulation.id, attempt, status, { processed: 0, remaining: 0 }, error.message);
+        }
+        return true;
+      }
+
       this.logger.error(`❌ Failed to resume simulation ${simulationId}:`, error);
-      
-      // Mark simulation as failed
-      await this.database.executeWithRetry(async () => {
-        return await prisma.simulations.update({
-          where: { simulationId },
-          data: {
-            status: 'FAILED',
-            recovery_status: 'FAILED',
-            error_message: error instanceof Error ? error.message : 'Unknown error',
+      const message = this.errorMessage(error);
+
+      if (attempt !== null) {
+        const progress = await this.getPersonaProgress(simulationId, simulation.selected_persona_ids)
+          .catch(() => ({ processed: 0, remaining: 0 }));
+        await this.logRecoveryOutcome(simulation.id, attempt, 'FAILED', progress, message);
+      }
+
+      // Mark simulation (and the job we leased) as failed
+      try {
+        await this.stateMachine.transition({
+          simulationId,
+          to: 'FAILED',
+          recoveryStatus: 'FAILED',
+          data: { error_message: message },
+          job: {
+            to: 'FAILED',
+            ownedBy: this.workerId,
+            data: {
+              failed_at: new Date(),
+              error_message: message,
+              retry_count: { increment: 1 },
+              worker_id: null,
+              lease_expires_at: null,
+            },
           },
+          reason: message,
+          actor: this.workerId,
         });
-      });
-      
+      } catch (updateError) {
+        this.logger.error(`❌ Failed to mark simulation ${simulationId} as failed:`, updateError);
+      }
+
       throw error;
+    } finally {
+      heartbeat?.stop();
     }
   }
 
+  /** Persona slots: the current (possibly lowered) limit, its configured maximum and their use. */
+  getPersonaConcurrency(): { limit: number; max: number; active: number; waiting: number } {
+    return {
+      limit: this.personaLimiter.getLimit(),
+      max: this.personaLimiter.getMax(),
+      active: this.personaLimiter.getActive(),
+      waiting: this.personaLimiter.getWaiting(),
+    };
+  }
+
+  /** Save slots, sized to the connection pool, and their use. */
+  getSaveConcurrency(): { limit: number; active: number; waiting: number } {
+    return {
+      limit: this.saveLimiter.getLimit(),
+      active: this.saveLimiter.getActive(),
+      waiting: this.saveLimiter.getWaiting(),
+    };
+  }
+
+  /**
+   * Stale RUNNING simulations: their queue job's lease has expired, or, for
+   * simulations without a leased job, they have not been updated within
+   * `staleSimulationSeconds`. Expects `s` (simulations) and `qj` (left-joined
+   * simulation_queue_jobs) aliases.
+   */
+  private staleRunningCondition(): Prisma.Sql {
+    return Prisma.sql`(
+      (qj."lease_expires_at" IS NOT NULL AND qj."lease_expires_at" < NOW())
+      OR (qj."lease_expires_at" IS NULL AND s."updated_at" < NOW() - (${this.staleSimulationSeconds} * INTERVAL '1 second'))
+    )`;
+  }
+
+  private startHeartbeat(jobId: string): JobHeartbeat {
+    return new JobHeartbeat(this.database, this.logger, {
+      jobId,
+      workerId: this.workerId,
+      leaseSeconds: this.leaseSeconds,
+      intervalSeconds: this.heartbeatIntervalSeconds,
+    });
+  }
+
   private async processRemainingPersonas(
     surveyId: number,
     simulationId: string,
-    questions: any[],
-    personas: any[],
+    questions: QuestionWithOptions[],
+    personas: PersonaProfile[],
+    run: {
+      totalPersonas: number;
+      processedPersonas: number;
+      queueJobId: string | null;
+      heartbeat?: JobHeartbeat | null;
+      template: PromptTemplate;
+    },
   ): Promise<void> {
     const batches = this.chunkArray(personas, this.batchSize);
+    const runStartedAt = Date.now();
+    let processedThisRun = 0;
 
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
+
+      if (await this.isCancelled(simulationId)) {
+        throw new SimulationCancelledError(simulationId);
+      }
+      if (run.heartbeat?.isLost() && run.queueJobId) {
+        throw new LeaseLostError(run.queueJobId);
+      }
+
       this.logger.info(`Processing batch ${i + 1}/${batches.length} for simulation ${simulationId}`);
 
-      // Process batch with retry logic
-      await this.database.executeWithRetry(async () => {
-        await Promise.all(
-          batch.map(async (persona) => {
-            try {
-              // Generate responses for this persona
-              const responses = await this.generatePersonaResponses(persona, questions);
-              
-              // Save responses
-              await this.savePersonaResponses(surveyId, simulationId, persona.id, responses);
-              
-              // Update simulation counters
-              await this.updateSimulationCounters(simulationId);
-            } catch (error) {
-              this.logger.error(`Failed to process persona ${persona.id}:`, error);
-              throw error;
-            }
-          }),
-        );
-      }, this.maxRetries, 2000);
-
-      // Small delay between batches
-      await this.delay(1000);
-    }
-  }
-
-  private async generatePersonaResponses(persona: any, questions: any[]): Promise<Array<{
-    questionId: number;
-    optionId: number | null;
-    answer: string;
-  }>> {
-    const responses: Array<{
-      questionId: number;
-      optionId: number | null;
-      answer: string;
-    }> = [];
-
-    for (const question of questions) {
-      // For now, generate mock responses
-      // In a real implementation, this would call the ChatGPT service
-      const response = {
-        questionId: question.id,
-        optionId: question.Option?.[0]?.id || null,
-        answer: `Mock response for persona ${persona.name}`,
-      };
-      responses.push(response);
+      const batchStartedAt = Date.now();
+      const batchUsage: TokenUsage[] = [];
+
+      // Each persona retries on its own, so one failure never reruns the batch.
+      // Personas wait for generation and save slots shared with every other
+      // job on this runner.
+      const outcomes = await Promise.all(
+        batch.map((persona) => this.processPersona(surveyId, simulationId, run.queueJobId, questions, persona, {
+          template: run.template,
+          onUsage: (usage) => batchUsage.push(usage),
+        })),
+      );
+
+      const succeeded = outcomes.filter(Boolean).length;
+      this.metrics.incrementCounter('twinquest_persona_batches_total');
+      this.metrics.incrementCounter('twinquest_personas_processed_total', { outcome: 'success' }, succeeded);
+      this.metrics.incrementCounter('twinquest_personas_processed_total', { outcome: 'failed' }, outcomes.length - succeeded);
+      this.metrics.observe('twinquest_persona_batch_duration_seconds', {}, (Date.now() - batchStartedAt) / 1000);
+
+      if (run.queueJobId) {
+        await this.recordTokenUsage(run.queueJobId, batchUsage);
+      }
+
+      processedThisRun += outcomes.length;
+      await this.updateBatchProgress(surveyId, simulationId, questions.length, {
+        totalPersonas: run.totalPersonas,
+        queueJobId: run.queueJobId,
+        processedPersonas: run.processedPersonas + processedThisRun,
+        personasPerMs: processedThisRun / Math.max(Date.now() - runStartedAt, 1),
+      });
     }
+  }
+
+  /**
+   * Generates, validates and saves one persona's responses with its own
+   * attempt counter. Generation holds a persona slot and saving a save slot,
+   * so slow model calls never tie up database connections. A persona that
+   * still fails after `personaMaxAttempts` is recorded in
+   * simulation_persona_failures and reported as false.
+   */
+  private async processPersona(
+    surveyId: number,
+    simulationId: string,
+    queueJobId: string | null,
+    questions: QuestionWithOptions[],
+    persona: PersonaProfile,
+    context: GenerationContext,
+  ): Promise<boolean> {
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= this.personaMaxAttempts; attempt++) {
+      try {
+        const responses = await this.personaLimiter.run(() => this.generatePersonaResponses(persona, questions, context));
+        this.personaLimiter.recordSuccess();
+
+        const issues = validateResponses(questions, responses);
+        if (issues.length > 0) {
+          lastError = `Invalid responses: ${issues.join('; ')}`;
+          this.logger.warn(`Invalid responses for persona ${persona.id} (attempt ${attempt}/${this.personaMaxAttempts}): ${issues.join('; ')}`);
+          continue;
+        }
 
-    return responses;
+        await this.saveLimiter.run(() => this.savePersonaResponses(surveyId, simulationId, queueJobId, persona.id, responses));
+
+        return true;
+      } catch (error) {
+        lastError = this.errorMessage(error);
+        this.logger.warn(`Persona ${persona.id} attempt ${attempt}/${this.personaMaxAttempts} failed: ${lastError}`);
+
+        if (error instanceof RateLimitError) {
+          const limit = this.personaLimiter.decrease();
+          this.logger.warn(`🚦 Generator rate limited; persona concurrency lowered to ${limit}`);
+        }
+
+        if (attempt < this.personaMaxAttempts) {
+          await this.delay(1000 * attempt);
+        }
+      }
+    }
+
+    this.logger.error(`❌ Giving up on persona ${persona.id} in simulation ${simulationId}: ${lastError}`);
+    await this.recordPersonaFailure(simulationId, persona.id, this.personaMaxAttempts, lastError);
+    return false;
+  }
+
+  private async generatePersonaResponses(
+    persona: PersonaProfile,
+    questions: QuestionWithOptions[],
+    context: GenerationContext,
+  ): Promise<GeneratedResponse[]> {
+    return await this.responseGenerator.generate(
+      { id: persona.id, name: persona.name, description: persona.description },
+      questions,
+      context,
+    );
+  }
+
+  /**
+   * Adds a batch's model calls to the job's `metadata.tokenUsage`. A single
+   * jsonb update, so it can't overwrite concurrent metadata changes.
+   */
+  private async recordTokenUsage(jobId: string, usages: TokenUsage[]): Promise<void> {
+    if (usages.length === 0) {
+      return;
+    }
+
+    const model = usages[usages.length - 1].model;
+    const promptTokens = usages.reduce((sum, usage) => sum + usage.promptTokens, 0);
+    const completionTokens = usages.reduce((sum, usage) => sum + usage.completionTokens, 0);
+    const totalTokens = usages.reduce((sum, usage) => sum + usage.totalTokens, 0);
+
+    this.metrics.incrementCounter('twinquest_generator_tokens_total', { model, kind: 'prompt' }, promptTokens);
+    this.metrics.incrementCounter('twinquest_generator_tokens_total', { model, kind: 'completion' }, completionTokens);
+
+    await this.database.executeWithRetry(async (prisma) => {
+      await prisma.$executeRaw`
+        UPDATE simulation_queue_jobs
+        SET metadata = jsonb_set(COALESCE(metadata, '{}'::jsonb), '{tokenUsage}', jsonb_build_object(
+          'provider', ${this.responseGenerator.name}::text,
+          'model', ${model}::text,
+          'requests', COALESCE((metadata->'tokenUsage'->>'requests')::bigint, 0) + ${usages.length},
+          'promptTokens', COALESCE((metadata->'tokenUsage'->>'promptTokens')::bigint, 0) + ${promptTokens},
+          'completionTokens', COALESCE((metadata->'tokenUsage'->>'completionTokens')::bigint, 0) + ${completionTokens},
+          'totalTokens', COALESCE((metadata->'tokenUsage'->>'totalTokens')::bigint, 0) + ${totalTokens}
+        ))
+        WHERE job_id = ${jobId}
+      `;
+    });
+  }
+
+  private async recordPersonaFailure(
+    simulationId: string,
+    personaId: number,
+    attempts: number,
+    reason: string,
+  ): Promise<void> {
+    try {
+      await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.simulation_persona_failures.upsert({
+          where: { simulation_id_persona_id: { simulation_id: simulationId, persona_id: personaId } },
+          create: { simulation_id: simulationId, persona_id: personaId, attempts, reason },
+          update: { attempts: { increment: attempts }, reason },
+        });
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record failure of persona ${personaId}:`, error);
+    }
+  }
+
+  /**
+   * The request counters as stored rows define them, one request being one
+   * persona answering one question: personas with saved responses are
+   * successful, personas in simulation_persona_failures failed. Deriving
+   * them (rather than incrementing) means a retried or resumed persona is
+   * never counted twice.
+   */
+  private async countRequests(
+    client: Prisma.TransactionClient,
+    simulationId: string,
+    questionCount: number,
+  ): Promise<{ answeredPersonas: number; successfulRequests: number; failedRequests: number }> {
+    const [counts] = await client.$queryRaw<Array<{ answered: number; failed: number }>>`
+      SELECT
+        (SELECT COUNT(DISTINCT persona_id) FROM survey_responses WHERE simulation_id = ${simulationId})::int AS answered,
+        (SELECT COUNT(*) FROM simulation_persona_failures WHERE simulation_id = ${simulationId})::int AS failed
+    `;
+
+    return {
+      answeredPersonas: counts.answered,
+      successfulRequests: counts.answered * questionCount,
+      failedRequests: counts.failed * questionCount,
+    };
+  }
+
+  /**
+   * Decides how a finished run ends: COMPLETED when every persona succeeded,
+   * PARTIAL when failed_requests stays within `maxPersonaFailureRate` of
+   * total_requests. Throws when too many failed.
+   */
+  private async assessCompletion(simulationId: string, totalPersonas: number, questionCount: number): Promise<CompletionOutcome> {
+    const counters = await this.database.executeWithRetry(async (prisma) => {
+      const counts = await this.countRequests(prisma, simulationId, questionCount);
+      await prisma.simulations.update({
+        where: { simulationId },
+        data: { successful_requests: counts.successfulRequests, failed_requests: counts.failedRequests },
+      });
+      return counts;
+    });
+
+    const failedPersonas = questionCount > 0 ? counters.failedRequests / questionCount : 0;
+    if (failedPersonas === 0) {
+      return { status: 'COMPLETED', failedPersonas, message: null };
+    }
+
+    const totalRequests = totalPersonas * questionCount;
+    const failureRate = totalRequests > 0 ? counters.failedRequests / totalRequests : 1;
+    const message = `${failedPersonas} of ${totalPersonas} personas failed`;
+
+    if (failureRate > this.maxPersonaFailureRate) {
+      throw new Error(`${message}, above the allowed ${(this.maxPersonaFailureRate * 100).toFixed(1)}%`);
+    }
+
+    return { status: 'PARTIAL', failedPersonas, message };
   }
 
   private async savePersonaResponses(
     surveyId: number,
     simulationId: string,
+    queueJobId: string | null,
     personaId: number,
-    responses: Array<{
-      questionId: number;
-      optionId: number | null;
-      answer: string;
-    }>,
+    responses: GeneratedResponse[],
   ): Promise<void> {
-    const prisma = this.database.getClient();
-    
     const responseData = responses.map((response) => ({
       surveyId,
       questionId: response.questionId,
       optionId: response.optionId,
       personaId,
       simulationId,
-      answer: response.answer,
+      answer: response.subQuestion ? `${response.subQuestion}: ${response.answer}` : response.answer,
+      // Unique per (simulationId, personaId, questionId): one row per
+      // sub-question of a MATRIX and per selected option otherwise
+      answerKey: response.subQuestion ?? (response.optionId !== null ? String(response.optionId) : ''),
       createdAt: new Date(),
       updatedAt: new Date(),
     }));
 
-    await this.database.executeWithRetry(async () => {
-      return await prisma.survey_responses.createMany({
-        data: responseData,
-      });
-    });
-  }
-
-  private async updateSimulationCounters(simulationId: string): Promise<void> {
-    const prisma = this.database.getClient();
+    // Replace the persona's responses in one transaction: a persona is either
+    // fully saved or not at all. The advisory lock serializes workers saving
+    // the same persona, so the last save replaces the first instead of both
+    // inserting; the unique key rejects duplicates that slip past it. The
+    // persona is charged in the same transaction, and only by the save that
+    // found no earlier responses, so a replaced save isn't charged twice.
+    await this.database.executeWithRetry(async (prisma) => {
+      await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${simulationId}), ${personaId}::int)`;
+        const replaced = await tx.survey_responses.deleteMany({
+          where: { simulationId, personaId },
+        });
+        await tx.survey_responses.createMany({
+          data: responseData,
+        });
+        await tx.simulation_persona_failures.deleteMany({
+          where: { simulation_id: simulationId, persona_id: personaId },
+        });
 
-    const simulation = await this.database.executeWithRetry(async () => {
-      return await prisma.simulations.findUnique({
-        where: { simulationId },
+        if (queueJobId && replaced.count === 0) {
+          await this.billing.settle(tx, queueJobId, 1);
+        }
       });
     });
+  }
 
-    if (simulation) {
-      const totalResponses = await this.database.executeWithRetry(async () => {
-        return await prisma.survey_responses.count({
-          where: { simulationId },
-        });
-      });
-
-      const progressPercentage = Math.min(
-        (totalResponses / (simulation.total_requests * simulation.selected_persona_count)) * 100,
-        100,
-      );
-
-      await this.database.executeWithRetry(async () => {
-        return await prisma.simulations.update({
+  /**
+   * Writes a batch's progress in one transaction instead of per persona.
+   * Progress counts every processed persona (saved or failed) against the
+   * full persona set, which is the share of total_requests handled since
+   * every persona stands for the same number of questions. The request
+   * counters are re-derived from the stored rows, and the ETA extrapolates
+   * this run's throughput.
+   */
+  private async updateBatchProgress(
+    surveyId: number,
+    simulationId: string,
+    questionCount: number,
+    progress: {
+      totalPersonas: number;
+      processedPersonas: number;
+      queueJobId: string | null;
+      personasPerMs: number;
+    },
+  ): Promise<void> {
+    const progressPercentage = this.progressPercentage(progress.processedPersonas, progress.totalPersonas);
+    const remainingPersonas = Math.max(progress.totalPersonas - progress.processedPersonas, 0);
+    const estimatedCompletion = progress.personasPerMs > 0
+      ? new Date(Date.now() + remainingPersonas / progress.personasPerMs)
+      : null;
+
+    await this.database.executeWithRetry(async (prisma) => {
+      await prisma.$transaction(async (tx) => {
+        const counters = await this.countRequests(tx, simulationId, questionCount);
+        await tx.simulations.update({
           where: { simulationId },
           data: {
-            successful_requests: totalResponses,
+            successful_requests: counters.successfulRequests,
+            failed_requests: counters.failedRequests,
             progress_percentage: progressPercentage,
+            estimated_completion: estimatedCompletion,
             updatedAt: new Date(),
           },
         });
+        await tx.surveys.update({
+          where: { id: surveyId },
+          data: { processed_personas: counters.answeredPersonas },
+        });
+        if (progress.queueJobId) {
+          await tx.simulation_queue_jobs.update({
+            where: { job_id: progress.queueJobId },
+            data: { progress_percentage: progressPercentage },
+          });
+        }
       });
+    });
+  }
+
+  private progressPercentage(processedPersonas: number, totalPersonas: number): number {
+    if (totalPersonas <= 0) {
+      return 0;
     }
+    return Math.round(Math.min((processedPersonas / totalPersonas) * 100, 100) * 100) / 100;
   }
 
   private async getCompletedPersonaIds(simulationId: string): Promise<number[]> {
-    const prisma = this.database.getClient();
-    
-    const responses = await this.database.executeWithRetry(async () => {
+    const responses = await this.database.executeWithRetry(async (prisma) => {
       return await prisma.survey_responses.findMany({
         where: { simulationId },
         select: { personaId: true },
@@ -685,56 +1545,207 @@ export class RecoveryService {
     return responses.map((r) => r.personaId);
   }
 
-  private async recoverStuckQueueJobs(): Promise<void> {
-    const prisma = this.database.getClient();
-    
+  /**
+   * Moves a simulation and its queue job into the terminal DEAD_LETTER state,
+   * keeping the last error. Only an explicit operator retry brings it back.
+   */
+  private async deadLetterSimulation(
+    simulation: { id: number; simulationId: string; queue_job_id: string | null; recovery_attempts: number },
+    reason: string,
+    lastError: string | null,
+  ): Promise<boolean> {
+    const errorMessage = lastError ? `${reason}. Last error: ${lastError}` : reason;
+
     try {
-      // Find queue jobs that have been PROCESSING for too long
-      const stuckJobs = await this.database.executeWithRetry(async () => {
-        return await prisma.simulation_queue_jobs.findMany({
-          where: {
-            status: 'PROCESSING',
-            started_at: {
-              lt: new Date(Date.now() - 30 * 60 * 1000), // Older than 30 minutes
-            },
+      await this.stateMachine.transition({
+        simulationId: simulation.simulationId,
+        to: 'FAILED',
+        recoveryStatus: 'DEAD_LETTER',
+        data: { error_message: errorMessage },
+        job: {
+          to: 'DEAD_LETTER',
+          data: { error_message: errorMessage, failed_at: new Date(), worker_id: null, lease_expires_at: null },
+        },
+        reason,
+        actor: this.workerId,
+      });
+
+      await this.logRecoveryOutcome(
+        simulation.id,
+        simulation.recovery_attempts,
+        'DEAD_LETTER',
+        { processed: 0, remaining: 0 },
+        errorMessage,
+      );
+
+      this.logger.warn(`☠️ Simulation ${simulation.simulationId} moved to DEAD_LETTER: ${reason}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`❌ Failed to dead-letter simulation ${simulation.simulationId}:`, error);
+      return false;
+    }
+  }
+
+  private async getPersonaProgress(simulationId: string, selectedPersonaIds: number[]): Promise<PersonaProgress> {
+    const completedPersonaIds = await this.getCompletedPersonaIds(simulationId);
+    const remaining = selectedPersonaIds.filter((id) => !completedPersonaIds.includes(id)).length;
+    return { processed: completedPersonaIds.length, remaining };
+  }
+
+  /**
+   * Bumps the simulation's recovery counters and writes the opening
+   * simulation_recovery_logs row. Returns the attempt number so the outcome
+   * can be logged against the same attempt.
+   */
+  private async beginRecoveryAttempt(
+    simulationDbId: number,
+    progress: PersonaProgress,
+    message: string,
+    crashedAt?: Date,
+  ): Promise<number> {
+    return await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.$transaction(async (tx) => {
+        const updated = await tx.simulations.update({
+          where: { id: simulationDbId },
+          data: {
+            recovery_attempts: { increment: 1 },
+            last_recovery_attempt: new Date(),
+            ...(crashedAt ? { crashed_at: crashedAt } : {}),
           },
+          select: { recovery_attempts: true },
         });
+
+        await tx.simulation_recovery_logs.create({
+          data: {
+            simulation_id: simulationDbId,
+            recovery_attempt: updated.recovery_attempts,
+            status: 'STARTED',
+            message,
+            processed_personas: progress.processed,
+            remaining_personas: progress.remaining,
+          },
+        });
+
+        return updated.recovery_attempts;
       });
+    });
+  }
 
-      if (stuckJobs.length > 0) {
-        this.logger.info(`Found ${stuckJobs.length} stuck queue jobs, resetting to PENDING`);
-        
-        await this.database.executeWithRetry(async () => {
-          return await prisma.simulation_queue_jobs.updateMany({
-            where: {
-              id: { in: stuckJobs.map(job => job.id) },
-            },
+  private async logRecoveryOutcome(
+    simulationDbId: number,
+    attempt: number,
+    status: string,
+    progress: PersonaProgress,
+    message?: string,
+  ): Promise<void> {
+    try {
+      await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.simulation_recovery_logs.create({
+          data: {
+            simulation_id: simulationDbId,
+            recovery_attempt: attempt,
+            status,
+            message,
+            processed_personas: progress.processed,
+            remaining_personas: progress.remaining,
+          },
+        });
+      });
+    } catch (error) {
+      // The audit trail must never break the recovery itself
+      this.logger.error(`Failed to write recovery log for simulation ${simulationDbId}:`, error);
+    }
+  }
+
+  private waitAction(simulationId: string, nextAttemptAt: Date): RecoveryAction {
+    return { type: 'WAIT', simulationId, detail: `Backing off until ${nextAttemptAt.toISOString()}` };
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  private async recoverStuckQueueJobs(dryRun: boolean, actions: RecoveryAction[]): Promise<void> {
+    try {
+      // Find PROCESSING jobs whose worker stopped renewing its lease. Jobs
+      // of RUNNING simulations were handled with their simulation, which
+      // may also be backing off, so they are left alone here. Jobs claimed
+      // before leases existed fall back to their start time.
+      const stuckJobs = await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.$queryRaw<Array<{ job_id: string; retry_count: number; max_retries: number }>>`
+          SELECT qj.job_id, qj.retry_count, qj.max_retries
+          FROM simulation_queue_jobs qj
+          WHERE qj.status = 'PROCESSING'
+          AND (
+            qj.lease_expires_at < NOW()
+            OR (qj.lease_expires_at IS NULL AND qj.started_at < NOW() - (${this.staleSimulationSeconds} * INTERVAL '1 second'))
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM simulations s WHERE s.queue_job_id = qj.job_id AND s.status = 'RUNNING'
+          )
+        `;
+      });
+
+      // Jobs that have used up their retries are dead-lettered instead of requeued
+      const exhaustedJobs = stuckJobs.filter((job) => job.retry_count + 1 >= job.max_retries);
+      const retryableJobs = stuckJobs.filter((job) => job.retry_count + 1 < job.max_retries);
+
+      if (exhaustedJobs.length > 0) {
+        this.logger.warn(`☠️ ${dryRun ? 'Would move' : 'Moving'} ${exhaustedJobs.length} stuck queue jobs to DEAD_LETTER`);
+      }
+      if (retryableJobs.length > 0) {
+        this.logger.info(`Found ${retryableJobs.length} stuck queue jobs, ${dryRun ? 'would reset' : 'resetting'} to PENDING`);
+      }
+
+      for (const job of stuckJobs) {
+        const exhausted = job.retry_count + 1 >= job.max_retries;
+        const action: RecoveryAction = {
+          type: exhausted ? 'DEAD_LETTER' : 'REQUEUE',
+          jobId: job.job_id,
+          detail: exhausted ? 'Stuck job exhausted its retries' : 'Stuck job lease expired',
+        };
+
+        if (dryRun) {
+          actions.push(action);
+          continue;
+        }
+
+        try {
+          await this.stateMachine.transitionJob({
+            jobId: job.job_id,
+            to: exhausted ? 'DEAD_LETTER' : 'PENDING',
             data: {
-              status: 'PENDING',
-              started_at: null,
+              ...(exhausted ? { failed_at: new Date() } : { started_at: null, heartbeat_at: null }),
+              worker_id: null,
+              lease_expires_at: null,
               retry_count: { increment: 1 },
             },
+            reason: action.detail,
+            actor: this.workerId,
           });
-        });
+          actions.push(action);
+        } catch (error) {
+          this.logger.error(`Failed to recover stuck queue job ${job.job_id}:`, error);
+        }
       }
     } catch (error) {
       this.logger.error('Failed to recover stuck queue jobs:', error);
     }
   }
 
-  async cleanupOldJobs(): Promise<void> {
-    const prisma = this.database.getClient();
-    
+  async cleanupOldJobs(options: RecoveryRunOptions = {}): Promise<RecoveryResult> {
+    const dryRun = options.dryRun ?? this.dryRun;
+
     try {
       // Clean up old completed/failed jobs (older than 7 days)
       const cutoffDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
       
-      const deletedJobs = await this.database.executeWithRetry(async () => {
-        return await prisma.simulation_queue_jobs.deleteMany({
+      const oldJobs = await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.simulation_queue_jobs.findMany({
           where: {
             OR: [
               {
-                status: 'COMPLETED',
+                status: { in: ['COMPLETED', 'PARTIALLY_COMPLETED'] },
                 completed_at: { lt: cutoffDate },
               },
               {
@@ -743,13 +1754,377 @@ export class RecoveryService {
               },
             ],
           },
+          select: { id: true, job_id: true, status: true },
         });
       });
 
-      this.logger.info(`🧹 Cleaned up ${deletedJobs.count} old queue jobs`);
+      const actions: RecoveryAction[] = oldJobs.map((job) => ({
+        type: 'DELETE',
+        jobId: job.job_id,
+        detail: `Delete ${job.status} job older than ${cutoffDate.toISOString()}`,
+      }));
+
+      if (dryRun) {
+        this.logger.info(`🧹 Would clean up ${oldJobs.length} old queue jobs (dry run)`);
+      } else if (oldJobs.length > 0) {
+        const deletedJobs = await this.database.executeWithRetry(async (prisma) => {
+          return await prisma.simulation_queue_jobs.deleteMany({
+            where: { id: { in: oldJobs.map((job) => job.id) } },
+          });
+        });
+        this.logger.info(`🧹 Cleaned up ${deletedJobs.count} old queue jobs`);
+      } else {
+        this.logger.info('🧹 Cleaned up 0 old queue jobs');
+      }
+
+      return {
+        recovered: 0,
+        failed: 0,
+        total: oldJobs.length,
+        status: 'HEALTHY',
+        issues: [],
+        recommendations: [],
+        dryRun,
+        actions,
+      };
     } catch (error) {
       this.logger.error('Failed to cleanup old jobs:', error);
+      return {
+        recovered: 0,
+        failed: 1,
+        total: 1,
+        status: 'UNHEALTHY',
+        issues: ['Cleanup of old queue jobs failed'],
+        recommendations: ['Check database connection and logs'],
+        dryRun,
+      };
+    }
+  }
+
+  async getSimulationProgress(simulationId: string): Promise<SimulationProgress> {
+    const simulation = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.simulations.findUnique({ where: { simulationId } });
+    });
+
+    if (!simulation) {
+      throw new NotFoundError(`Simulation ${simulationId} not found`);
+    }
+
+    const queueJob = simulation.queue_job_id
+      ? await this.database.executeWithRetry(async (prisma) => {
+        return await prisma.simulation_queue_jobs.findUnique({ where: { job_id: simulation.queue_job_id! } });
+      })
+      : null;
+
+    const personas = await this.getPersonaProgress(simulationId, simulation.selected_persona_ids);
+
+    return {
+      simulationId: simulation.simulationId,
+      surveyId: simulation.surveyId,
+      status: simulation.status,
+      recoveryStatus: simulation.recovery_status,
+      progressPercentage: Number(simulation.progress_percentage),
+      successfulRequests: simulation.successful_requests,
+      failedRequests: simulation.failed_requests,
+      recoveryAttempts: simulation.recovery_attempts,
+      errorMessage: simulation.error_message,
+      estimatedCompletion: simulation.estimated_completion,
+      updatedAt: simulation.updatedAt,
+      promptTemplate: simulation.prompt_template,
+      personas: {
+        total: simulation.selected_persona_ids.length,
+        processed: personas.processed,
+        remaining: personas.remaining,
+      },
+      queueJob: queueJob ? {
+        jobId: queueJob.job_id,
+        status: queueJob.status,
+        progressPercentage: Number(queueJob.progress_percentage),
+        retryCount: queueJob.retry_count,
+        maxRetries: queueJob.max_retries,
+        workerId: queueJob.worker_id,
+        leaseExpiresAt: queueJob.lease_expires_at,
+        errorMessage: queueJob.error_message,
+        billing: ((queueJob.metadata as Record<string, unknown> | null)?.billing as JobBilling | undefined) ?? null,
+        tokenUsage: ((queueJob.metadata as Record<string, unknown> | null)?.tokenUsage as JobTokenUsage | undefined) ?? null,
+      } : null,
+    };
+  }
+
+  /**
+   * Operator retry: requeues a FAILED (including dead-lettered or cancelled)
+   * simulation with fresh recovery and retry counters.
+   */
+  async retrySimulation(simulationId: string, actor: string = 'operator'): Promise<void> {
+    const simulation = await this.findSimulationOrThrow(simulationId);
+
+    if (simulation.status !== 'FAILED') {
+      throw new InvalidStateError(`Simulation ${simulationId} is ${simulation.status}; only FAILED simulations can be retried`);
+    }
+
+    await this.stateMachine.transition({
+      simulationId,
+      to: 'PENDING',
+      recoveryStatus: 'MANUAL_RETRY',
+      data: { recovery_attempts: 0, error_message: null },
+      job: {
+        to: 'PENDING',
+        data: { retry_count: 0, error_message: null, failed_at: null, worker_id: null, lease_expires_at: null },
+      },
+      reason: 'Requeued by operator',
+      actor,
+    });
+
+    await this.logRecoveryOutcome(
+      simulation.id,
+      simulation.recovery_attempts,
+      'MANUAL_RETRY',
+      await this.getPersonaProgress(simulationId, simulation.selected_persona_ids),
+      'Requeued by operator',
+    );
+
+    this.logger.info(`🔁 Simulation ${simulationId} requeued by operator`);
+  }
+
+  /**
+   * Cancels a PENDING or RUNNING simulation. A worker processing it stops
+   * before its next batch.
+   */
+  async cancelSimulation(simulationId: string, actor: string = 'operator'): Promise<void> {
+    const simulation = await this.findSimulationOrThrow(simulationId);
+
+    if (simulation.status !== 'PENDING' && simulation.status !== 'RUNNING') {
+      throw new InvalidStateError(`Simulation ${simulationId} is ${simulation.status}; only PENDING or RUNNING simulations can be cancelled`);
+    }
+
+    await this.stateMachine.transition({
+      simulationId,
+      to: 'FAILED',
+      recoveryStatus: 'CANCELLED',
+      data: { error_message: 'Cancelled by operator' },
+      job: {
+        to: 'CANCELLED',
+        data: { error_message: 'Cancelled by operator', failed_at: new Date(), worker_id: null, lease_expires_at: null },
+      },
+      reason: 'Cancelled by operator',
+      actor,
+    });
+
+    await this.logRecoveryOutcome(
+      simulation.id,
+      simulation.recovery_attempts,
+      'CANCELLED',
+      await this.getPersonaProgress(simulationId, simulation.selected_persona_ids),
+      'Cancelled by operator',
+    );
+
+    this.logger.info(`🛑 Simulation ${simulationId} cancelled by operator`);
+  }
+
+  /**
+   * Operator requeue: puts a RUNNING or FAILED simulation back in the queue
+   * as-is, keeping its counters and saved responses. A worker still running
+   * it loses its lease and stops before its next batch.
+   */
+  async requeueSimulation(simulationId: string, actor: string = 'operator'): Promise<void> {
+    const simulation = await this.findSimulationOrThrow(simulationId);
+
+    if (simulation.status !== 'RUNNING' && simulation.status !== 'FAILED') {
+      throw new InvalidStateError(`Simulation ${simulationId} is ${simulation.status}; only RUNNING or FAILED simulations can be requeued`);
+    }
+
+    await this.stateMachine.transition({
+      simulationId,
+      to: 'PENDING',
+      data: { error_message: null },
+      job: {
+        to: 'PENDING',
+        data: {
+          error_message: null,
+          started_at: null,
+          failed_at: null,
+          worker_id: null,
+          lease_expires_at: null,
+          heartbeat_at: null,
+        },
+      },
+      reason: 'Requeued by operator',
+      actor,
+    });
+
+    this.logger.info(`🔁 Simulation ${simulationId} requeued by ${actor}`);
+  }
+
+  /**
+   * Marks a simulation COMPLETED with whatever responses it has. Its job
+   * ends as PARTIALLY_COMPLETED when personas are still unanswered.
+   */
+  async forceCompleteSimulation(simulationId: string, actor: string = 'operator'): Promise<void> {
+    const simulation = await this.findSimulationOrThrow(simulationId);
+
+    if (simulation.status === 'COMPLETED') {
+      throw new InvalidStateError(`Simulation ${simulationId} is already COMPLETED`);
+    }
+
+    const progress = await this.getPersonaProgress(simulationId, simulation.selected_persona_ids);
+    const message = progress.remaining > 0
+      ? `Force-completed with ${progress.remaining} of ${simulation.selected_persona_ids.length} personas unanswered`
+      : null;
+
+    await this.stateMachine.transition({
+      simulationId,
+      to: 'COMPLETED',
+      recoveryStatus: 'COMPLETED',
+      data: { error_message: message },
+      surveyData: { simulation_completed_at: new Date() },
+      job: {
+        to: progress.remaining > 0 ? 'PARTIALLY_COMPLETED' : 'COMPLETED',
+        data: { completed_at: new Date(), error_message: message, worker_id: null, lease_expires_at: null },
+      },
+      reason: message ?? 'Force-completed by operator',
+      actor,
+    });
+
+    this.logger.info(`🏁 Simulation ${simulationId} force-completed by ${actor}`);
+  }
+
+  /**
+   * Deletes every saved response and recorded persona failure of a
+   * simulation and resets its progress counters. Refused while the
+   * simulation is RUNNING. Returns the number of deleted responses.
+   */
+  async purgeSimulationResponses(simulationId: string, actor: string = 'operator'): Promise<number> {
+    const simulation = await this.findSimulationOrThrow(simulationId);
+
+    if (simulation.status === 'RUNNING') {
+      throw new InvalidStateError(`Simulation ${simulationId} is RUNNING; cancel or requeue it before purging responses`);
+    }
+
+    const [deleted] = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.$transaction([
+        prisma.survey_responses.deleteMany({ where: { simulationId } }),
+        prisma.simulation_persona_failures.deleteMany({ where: { simulation_id: simulationId } }),
+        prisma.simulations.update({
+          where: { simulationId },
+          data: { successful_requests: 0, failed_requests: 0, progress_percentage: 0, estimated_completion: null },
+        }),
+        prisma.surveys.update({
+          where: { id: simulation.surveyId },
+          data: { processed_personas: 0 },
+        }),
+      ]);
+    });
+
+    this.logger.warn(`🧹 Purged ${deleted.count} responses of simulation ${simulationId} (by ${actor})`);
+    return deleted.count;
+  }
+
+  async listSimulations(options: { status?: string; limit?: number } = {}): Promise<SimulationSummary[]> {
+    if (options.status && !(options.status in SimulationStatus)) {
+      throw new Error(`Unknown simulation status: ${options.status}`);
+    }
+
+    const simulations = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.simulations.findMany({
+        where: options.status ? { status: options.status as SimulationStatus } : {},
+        orderBy: { updatedAt: 'desc' },
+        take: options.limit ?? 50,
+      });
+    });
+
+    return simulations.map((simulation) => ({
+      simulationId: simulation.simulationId,
+      surveyId: simulation.surveyId,
+      status: simulation.status,
+      recoveryStatus: simulation.recovery_status,
+      progressPercentage: Number(simulation.progress_percentage),
+      queueJobId: simulation.queue_job_id,
+      updatedAt: simulation.updatedAt,
+    }));
+  }
+
+  async listQueueJobs(options: { status?: string; limit?: number } = {}): Promise<QueueJobSummary[]> {
+    const jobs = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.simulation_queue_jobs.findMany({
+        where: options.status ? { status: options.status } : {},
+        orderBy: [{ priority: 'desc' }, { created_at: 'asc' }],
+        take: options.limit ?? 50,
+      });
+    });
+
+    return jobs.map((job) => ({
+      jobId: job.job_id,
+      surveyId: job.survey_id,
+      status: job.status,
+      priority: job.priority,
+      progressPercentage: Number(job.progress_percentage),
+      retryCount: job.retry_count,
+      maxRetries: job.max_retries,
+      workerId: job.worker_id,
+      createdAt: job.created_at,
+    }));
+  }
+
+  /** Recovery log and recorded status transitions of a simulation, newest first. */
+  async getSimulationHistory(simulationId: string, limit: number = 20): Promise<SimulationHistory> {
+    const simulation = await this.findSimulationOrThrow(simulationId);
+
+    const [recoveryLogs, transitions] = await this.database.executeWithRetry(async (prisma) => {
+      return await Promise.all([
+        prisma.simulation_recovery_logs.findMany({
+          where: { simulation_id: simulation.id },
+          orderBy: { created_at: 'desc' },
+          take: limit,
+        }),
+        prisma.simulation_state_transitions.findMany({
+          where: { simulation_id: simulationId },
+          orderBy: { created_at: 'desc' },
+          take: limit,
+        }),
+      ]);
+    });
+
+    return {
+      recoveryLogs: recoveryLogs.map((log) => ({
+        attempt: log.recovery_attempt,
+        status: log.status,
+        message: log.message,
+        processedPersonas: log.processed_personas,
+        remainingPersonas: log.remaining_personas,
+        createdAt: log.created_at,
+      })),
+      transitions: transitions.map((transition) => ({
+        entityType: transition.entity_type,
+        fromStatus: transition.from_status,
+        toStatus: transition.to_status,
+        reason: transition.reason,
+        actor: transition.actor,
+        createdAt: transition.created_at,
+      })),
+    };
+  }
+
+  private async findSimulationOrThrow(simulationId: string) {
+    const simulation = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.simulations.findUnique({ where: { simulationId } });
+    });
+
+    if (!simulation) {
+      throw new NotFoundError(`Simulation ${simulationId} not found`);
     }
+
+    return simulation;
+  }
+
+  private async isCancelled(simulationId: string): Promise<boolean> {
+    const simulation = await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.simulations.findUnique({
+        where: { simulationId },
+        select: { recovery_status: true },
+      });
+    });
+
+    return simulation?.recovery_status === 'CANCELLED';
   }
 
   async healthCheck(): Promise<boolean> {
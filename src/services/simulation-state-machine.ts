@@ -0,0 +1,391 @@
+import { Prisma, SimulationStatus } from '@prisma/client';
+import { DatabaseService } from './database.service';
+import { LoggerService } from './logger.service';
+import { BillingService } from './billing.service';
+import { FairShareScheduler } from './fair-share-scheduler';
+import { InsufficientBudgetError, InvalidTransitionError, LeaseLostError, NotFoundError } from '../errors';
+
+export type JobStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'PARTIALLY_COMPLETED'
+  | 'FAILED'
+  | 'DEAD_LETTER'
+  | 'CANCELLED';
+
+export type RecoveryStatus =
+  | 'NONE'
+  | 'IN_PROGRESS'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'DEAD_LETTER'
+  | 'CANCELLED'
+  | 'MANUAL_RETRY';
+
+/**
+ * Allowed status moves. Staying in the same state is always allowed so a
+ * transition can update recovery_status or bookkeeping fields on its own
+ * (e.g. dead-lettering an already FAILED simulation).
+ */
+const SIMULATION_TRANSITIONS: Record<SimulationStatus, SimulationStatus[]> = {
+  PENDING: ['RUNNING', 'FAILED'],
+  RUNNING: ['PENDING', 'COMPLETED', 'FAILED'],
+  COMPLETED: [],
+  FAILED: ['PENDING', 'COMPLETED'],
+};
+
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  PENDING: ['PROCESSING', 'CANCELLED', 'DEAD_LETTER'],
+  PROCESSING: ['PENDING', 'COMPLETED', 'PARTIALLY_COMPLETED', 'FAILED', 'DEAD_LETTER', 'CANCELLED'],
+  COMPLETED: [],
+  PARTIALLY_COMPLETED: [],
+  FAILED: ['PENDING', 'PROCESSING', 'COMPLETED', 'PARTIALLY_COMPLETED', 'DEAD_LETTER', 'CANCELLED'],
+  DEAD_LETTER: ['PENDING', 'COMPLETED', 'PARTIALLY_COMPLETED'],
+  CANCELLED: ['PENDING', 'COMPLETED', 'PARTIALLY_COMPLETED'],
+};
+
+export interface JobChange {
+  to: JobStatus;
+  data?: Prisma.simulation_queue_jobsUpdateInput;
+  /** Only apply while this worker still holds the job's lease. */
+  ownedBy?: string;
+}
+
+export interface SimulationTransition {
+  simulationId: string;
+  to: SimulationStatus;
+  recoveryStatus?: RecoveryStatus;
+  data?: Prisma.simulationsUpdateInput;
+  surveyData?: Prisma.surveysUpdateInput;
+  /** Change to the simulation's queue job, skipped when it has none. */
+  job?: JobChange;
+  reason: string;
+  actor: string;
+}
+
+export interface JobTransition extends JobChange {
+  jobId: string;
+  reason: string;
+  actor: string;
+}
+
+interface SimulationRow {
+  id: number;
+  simulationId: string;
+  surveyId: number;
+  status: SimulationStatus;
+  queue_job_id: string | null;
+}
+
+interface JobRow {
+  job_id: string;
+  status: JobStatus;
+  worker_id: string | null;
+}
+
+export class SimulationStateMachine {
+  private database: DatabaseService;
+  private logger: LoggerService;
+  private scheduler: FairShareScheduler;
+  private billing: BillingService | null;
+
+  /**
+   * `scheduler` picks the job `claimNextJob` hands out. With `billing`, a
+   * job's cost is reserved when it is claimed and the rest refunded in the
+   * transaction that finishes it.
+   */
+  constructor(
+    database: DatabaseService,
+    logger: LoggerService,
+    scheduler: FairShareScheduler,
+    billing: BillingService | null = null,
+  ) {
+    this.database = database;
+    this.logger = logger;
+    this.scheduler = scheduler;
+    this.billing = billing;
+  }
+
+  static canTransitionSimulation(from: SimulationStatus, to: SimulationStatus): boolean {
+    return from === to || SIMULATION_TRANSITIONS[from].includes(to);
+  }
+
+  static canTransitionJob(from: JobStatus, to: JobStatus): boolean {
+    return from === to || (JOB_TRANSITIONS[from] ?? []).includes(to);
+  }
+
+  /**
+   * Moves a simulation (and optionally its queue job) to a new status. The
+   * simulation, its survey's simulation_status and the job are updated in
+   * one transaction, with the rows locked while the move is validated.
+   */
+  async transition(change: SimulationTransition): Promise<void> {
+    await this.database.executeWithRetry(async (prisma) => {
+      await prisma.$transaction((tx) => this.applyTransition(tx, change));
+    });
+
+    this.logger.debug(`🔀 Simulation ${change.simulationId} -> ${change.to} (${change.reason}, by ${change.actor})`);
+  }
+
+  /**
+   * Moves a queue job on its own, for jobs whose simulation is handled
+   * separately (or not at all).
+   */
+  async transitionJob(change: JobTransition): Promise<void> {
+    await this.database.executeWithRetry(async (prisma) => {
+      await prisma.$transaction(async (tx) => {
+        const job = await this.lockJob(tx, change.jobId, change);
+
+        await tx.simulation_queue_jobs.update({
+          where: { job_id: job.job_id },
+          data: { ...change.data, status: change.to },
+        });
+        await this.billing?.releaseOnTransition(tx, job.job_id, change.to, change.reason);
+
+        await this.record(tx, job.job_id, job.status, change.to, change.reason, change.actor);
+      });
+    });
+
+    this.logger.debug(`🔀 Job ${change.jobId} -> ${change.to} (${change.reason}, by ${change.actor})`);
+  }
+
+  /**
+   * Claims the job the scheduler picks for a worker (PENDING -> PROCESSING),
+   * reserves its cost and clears its queue position. The scheduler
+   * serializes claims, so each job is handed to exactly one worker and
+   * concurrency caps hold.
+   */
+  async claimNextJob<T extends { job_id: string }>(workerId: string, leaseSeconds: number): Promise<T | null> {
+    return await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.$transaction(async (tx) => {
+        // Refused jobs leave the queue, so each pass picks a different one
+        let jobId = await this.scheduler.selectNext(tx);
+        while (jobId && !(await this.reserveBudget(tx, jobId, workerId))) {
+          jobId = await this.scheduler.selectNext(tx);
+        }
+        if (!jobId) {
+          return null;
+        }
+
+        const [job] = await tx.$queryRaw<T[]>`
+          UPDATE simulation_queue_jobs
+          SET "status" = 'PROCESSING',
+              "started_at" = NOW(),
+              "worker_id" = ${workerId},
+              "heartbeat_at" = NOW(),
+              "lease_expires_at" = NOW() + (${leaseSeconds} * INTERVAL '1 second')
+          WHERE "job_id" = ${jobId} AND "status" = 'PENDING'
+          RETURNING *
+        `;
+
+        if (!job) {
+          return null;
+        }
+
+        await tx.$executeRaw`
+          UPDATE simulations SET queue_position = NULL, estimated_start_time = NULL WHERE queue_job_id = ${jobId}
+        `;
+
+        await this.record(tx, job.job_id, 'PENDING', 'PROCESSING', 'Claimed by worker', workerId);
+        return job;
+      });
+    });
+  }
+
+  /**
+   * Takes over a job whose lease has expired (or was never set) so a
+   * recovering worker can resume it. Returns false when a live worker still
+   * holds the lease.
+   */
+  async takeOverJob(jobId: string, workerId: string, leaseSeconds: number): Promise<boolean> {
+    return await this.database.executeWithRetry(async (prisma) => {
+      return await prisma.$transaction(async (tx) => {
+        const [job] = await tx.$queryRaw<JobRow[]>`
+          SELECT job_id, status, worker_id
+          FROM simulation_queue_jobs
+          WHERE job_id = ${jobId}
+          AND (lease_expires_at IS NULL OR lease_expires_at < NOW() OR worker_id = ${workerId})
+          FOR UPDATE
+        `;
+
+        if (!job || !SimulationStateMachine.canTransitionJob(job.status, 'PROCESSING')) {
+          return false;
+        }
+
+        await tx.$executeRaw`
+          UPDATE simulation_queue_jobs
+          SET "status" = 'PROCESSING',
+              "worker_id" = ${workerId},
+              "heartbeat_at" = NOW(),
+              "lease_expires_at" = NOW() + (${leaseSeconds} * INTERVAL '1 second')
+          WHERE "job_id" = ${jobId}
+        `;
+
+        await this.record(tx, jobId, job.status, 'PROCESSING', 'Lease taken over for recovery', workerId);
+        return true;
+      });
+    });
+  }
+
+  private async applyTransition(tx: Prisma.TransactionClient, change: SimulationTransition): Promise<void> {
+    const [simulation] = await tx.$queryRaw<SimulationRow[]>`
+      SELECT id, "simulation_id" AS "simulationId", "survey_id" AS "surveyId", status, queue_job_id
+      FROM simulations
+      WHERE "simulation_id" = ${change.simulationId}
+      FOR UPDATE
+    `;
+
+    if (!simulation) {
+      throw new NotFoundError(`Simulation ${change.simulationId} not found`);
+    }
+
+    if (!SimulationStateMachine.canTransitionSimulation(simulation.status, change.to)) {
+      throw new InvalidTransitionError('simulation', change.simulationId, simulation.status, change.to);
+    }
+
+    const job = change.job && simulation.queue_job_id
+      ? await this.lockJob(tx, simulation.queue_job_id, change.job)
+      : null;
+
+    await tx.simulations.update({
+      where: { id: simulation.id },
+      data: {
+        ...change.data,
+        status: change.to,
+        ...(change.recoveryStatus ? { recovery_status: change.recoveryStatus } : {}),
+      },
+    });
+
+    await tx.surveys.update({
+      where: { id: simulation.surveyId },
+      data: { ...change.surveyData, simulation_status: change.to },
+    });
+
+    const records: Prisma.simulation_state_transitionsCreateManyInput[] = [{
+      entity_type: 'SIMULATION',
+      simulation_id: simulation.simulationId,
+      job_id: simulation.queue_job_id,
+      from_status: simulation.status,
+      to_status: change.to,
+      recovery_status: change.recoveryStatus ?? null,
+      reason: change.reason,
+      actor: change.actor,
+    }];
+
+    if (job && change.job) {
+      await tx.simulation_queue_jobs.update({
+        where: { job_id: job.job_id },
+        data: { ...change.job.data, status: change.job.to },
+      });
+      await this.billing?.releaseOnTransition(tx, job.job_id, change.job.to, change.reason);
+      records.push({
+        entity_type: 'JOB',
+        simulation_id: simulation.simulationId,
+        job_id: job.job_id,
+        from_status: job.status,
+        to_status: change.job.to,
+        reason: change.reason,
+        actor: change.actor,
+      });
+    }
+
+    await tx.simulation_state_transitions.createMany({ data: records });
+  }
+
+  /**
+   * Reserves a job's cost in the claiming transaction. A job whose user
+   * can't pay is refused for good: it is dead-lettered with the budget
+   * error, so failed-recovery leaves it alone until an operator retries it.
+   * Returns false for a refused job.
+   */
+  private async reserveBudget(tx: Prisma.TransactionClient, jobId: string, workerId: string): Promise<boolean> {
+    if (!this.billing) {
+      return true;
+    }
+
+    try {
+      await this.billing.reserve(tx, jobId);
+      return true;
+    } catch (error) {
+      if (!(error instanceof InsufficientBudgetError)) {
+        throw error;
+      }
+
+      const job: JobChange = {
+        to: 'DEAD_LETTER',
+        data: { error_message: error.message, failed_at: new Date() },
+      };
+      const [simulation] = await tx.$queryRaw<Array<{ simulationId: string }>>`
+        SELECT "simulation_id" AS "simulationId" FROM simulations WHERE queue_job_id = ${jobId} LIMIT 1
+      `;
+
+      if (simulation) {
+        await this.applyTransition(tx, {
+          simulationId: simulation.simulationId,
+          to: 'FAILED',
+          recoveryStatus: 'DEAD_LETTER',
+          data: { error_message: error.message, queue_position: null, estimated_start_time: null },
+          job,
+          reason: error.message,
+          actor: workerId,
+        });
+      } else {
+        await tx.simulation_queue_jobs.update({
+          where: { job_id: jobId },
+          data: { ...job.data, status: job.to },
+        });
+        await this.record(tx, jobId, 'PENDING', job.to, error.message, workerId);
+      }
+
+      this.logger.warn(`💳 Job ${jobId} refused: ${error.message}`);
+      return false;
+    }
+  }
+
+  private async lockJob(tx: Prisma.TransactionClient, jobId: string, change: JobChange): Promise<JobRow> {
+    const [job] = await tx.$queryRaw<JobRow[]>`
+      SELECT job_id, status, worker_id FROM simulation_queue_jobs WHERE job_id = ${jobId} FOR UPDATE
+    `;
+
+    if (!job) {
+      throw new NotFoundError(`Queue job ${jobId} not found`);
+    }
+
+    if (change.ownedBy && job.worker_id !== change.ownedBy) {
+      throw new LeaseLostError(jobId);
+    }
+
+    if (!SimulationStateMachine.canTransitionJob(job.status, change.to)) {
+      throw new InvalidTransitionError('job', jobId, job.status, change.to);
+    }
+
+    return job;
+  }
+
+  /** Records a job-only transition, linked to the job's simulation if any. */
+  private async record(
+    tx: Prisma.TransactionClient,
+    jobId: string,
+    from: string,
+    to: string,
+    reason: string,
+    actor: string,
+  ): Promise<void> {
+    const [simulation] = await tx.$queryRaw<Array<{ simulationId: string }>>`
+      SELECT "simulation_id" AS "simulationId" FROM simulations WHERE queue_job_id = ${jobId} LIMIT 1
+    `;
+
+    await tx.simulation_state_transitions.create({
+      data: {
+        entity_type: 'JOB',
+        simulation_id: simulation?.simulationId ?? null,
+        job_id: jobId,
+        from_status: from,
+        to_status: to,
+        reason,
+        actor,
+      },
+    });
+  }
+}
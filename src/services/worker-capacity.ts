@@ -0,0 +1,39 @@
+import { AppConfig } from '../config';
+
+export interface WorkerCapacity {
+  jobs: number;
+  /** Personas saving their responses at once, across every job. */
+  saves: number;
+  connectionLimit: number;
+  /** Why configured values were lowered, if they were. */
+  warnings: string[];
+}
+
+// Connections left for cron tasks, health checks, metrics and the admin API
+const RESERVED_CONNECTIONS = 1;
+
+/**
+ * Fits the runner's database work into the Prisma pool. Every running job
+ * keeps a connection busy with heartbeats and progress updates, and every
+ * persona saving its responses holds one, so jobs plus saves must stay
+ * within the pool minus the reserved connections. Jobs are lowered first so
+ * each keeps at least one save slot. Model calls hold no connection and are
+ * paced by the generator's rate limiter instead, so PERSONA_CONCURRENCY is
+ * left as configured.
+ */
+export function planWorkerCapacity(config: AppConfig): WorkerCapacity {
+  const connectionLimit = config.database.connectionLimit;
+  const available = Math.max(connectionLimit - RESERVED_CONNECTIONS, 2);
+  const warnings: string[] = [];
+
+  let jobs = config.queueWorker.concurrency;
+  const maxJobs = Math.max(1, Math.floor(available / 2));
+  if (jobs > maxJobs) {
+    warnings.push(`QUEUE_WORKER_CONCURRENCY lowered from ${jobs} to ${maxJobs} to fit connection_limit=${connectionLimit}`);
+    jobs = maxJobs;
+  }
+
+  const saves = Math.max(1, Math.min(available - jobs, config.recovery.personaConcurrency));
+
+  return { jobs, saves, connectionLimit, warnings };
+}
@@ -0,0 +1,191 @@
+import { strict as assert } from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import { Prisma } from '@prisma/client';
+import { BillingService, JobBilling } from '../src/services/billing.service';
+import { LoggerService } from '../src/services/logger.service';
+import { InsufficientBudgetError } from '../src/errors';
+
+const logger = { debug() {}, info() {}, warn() {}, error() {} } as unknown as LoggerService;
+
+interface Ledger {
+  type: string;
+  amount: string;
+}
+
+/**
+ * One queue job of user 5 in group 3, with just enough of the database
+ * behind it for the billing queries.
+ */
+class FakeDatabase {
+  job = {
+    job_id: 'job-1',
+    user_id: 5,
+    survey_id: 9,
+    persona_count: 10,
+    selected_persona_ids: [] as number[],
+    metadata: {} as Record<string, unknown>,
+  };
+  simulation: { selected_persona_ids: number[]; answered: number } | null = null;
+  budget = new Prisma.Decimal(100);
+  ledger: Ledger[] = [];
+
+  tx = {
+    $queryRaw: async (strings: TemplateStringsArray) => {
+      const sql = strings.join('?');
+      if (sql.includes('FROM simulation_queue_jobs')) {
+        return [{ ...this.job }];
+      }
+      if (sql.includes('FROM simulations s')) {
+        return this.simulation ? [this.simulation] : [];
+      }
+      if (sql.includes('FROM surveys')) {
+        return [{ group_id: 3 }];
+      }
+      if (sql.includes('FROM "GroupUser"')) {
+        return [{ id: 11, budget: this.budget }];
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+    groupUser: {
+      update: async ({ data }: { data: { budget: { increment?: Prisma.Decimal; decrement?: Prisma.Decimal } } }) => {
+        const { increment, decrement } = data.budget;
+        this.budget = increment ? this.budget.plus(increment) : this.budget.minus(decrement!);
+      },
+    },
+    transactions: {
+      create: async ({ data }: { data: { type: string; amount: Prisma.Decimal } }) => {
+        this.ledger.push({ type: data.type, amount: data.amount.toFixed(2) });
+      },
+    },
+    simulation_queue_jobs: {
+      update: async ({ data }: { data: { metadata: Record<string, unknown> } }) => {
+        this.job.metadata = data.metadata;
+      },
+    },
+  };
+
+  service(costPerPersona = 1.5, enabled = true): BillingService {
+    return new BillingService(logger, { enabled, costPerPersona });
+  }
+
+  get transaction(): Prisma.TransactionClient {
+    return this.tx as unknown as Prisma.TransactionClient;
+  }
+
+  get billing(): JobBilling | undefined {
+    return this.job.metadata.billing as JobBilling | undefined;
+  }
+}
+
+describe('BillingService', () => {
+  let db: FakeDatabase;
+
+  beforeEach(() => {
+    db = new FakeDatabase();
+  });
+
+  it('reserves the cost of the unanswered personas of the selection', async () => {
+    db.job.selected_persona_ids = [1, 2, 3, 4];
+    db.simulation = { selected_persona_ids: [1, 2, 3, 4], answered: 1 };
+
+    await db.service().reserve(db.transaction, 'job-1');
+
+    assert.equal(db.budget.toFixed(2), '95.50');
+    assert.deepEqual(db.ledger, [{ type: 'MINES', amount: '4.50' }]);
+    assert.deepEqual(db.billing, {
+      status: 'RESERVED',
+      groupId: 3,
+      groupUserId: 11,
+      costPerPersona: '1.5',
+      reserved: '4.50',
+      charged: '0.00',
+      personasCharged: 0,
+    });
+  });
+
+  it('falls back to the simulation selection, then to persona_count', async () => {
+    db.simulation = { selected_persona_ids: [1, 2], answered: 0 };
+    await db.service(1).reserve(db.transaction, 'job-1');
+    assert.equal(db.billing?.reserved, '2.00');
+
+    const other = new FakeDatabase();
+    await other.service(1).reserve(other.transaction, 'job-1');
+    assert.equal(other.billing?.reserved, '10.00');
+  });
+
+  it('refuses a job the budget cannot cover and writes nothing', async () => {
+    db.budget = new Prisma.Decimal('14.99');
+
+    await assert.rejects(db.service().reserve(db.transaction, 'job-1'), InsufficientBudgetError);
+    assert.equal(db.budget.toFixed(2), '14.99');
+    assert.deepEqual(db.ledger, []);
+    assert.equal(db.billing, undefined);
+  });
+
+  it('does not reserve twice while a reservation is held', async () => {
+    const billing = db.service();
+    await billing.reserve(db.transaction, 'job-1');
+    await billing.reserve(db.transaction, 'job-1');
+
+    assert.equal(db.ledger.length, 1);
+    assert.equal(db.budget.toFixed(2), '85.00');
+  });
+
+  it('settles processed personas against the reservation, never beyond it', async () => {
+    const billing = db.service();
+    await billing.reserve(db.transaction, 'job-1');
+
+    await billing.settle(db.transaction, 'job-1', 4);
+    assert.equal(db.billing?.reserved, '9.00');
+    assert.equal(db.billing?.charged, '6.00');
+    assert.equal(db.budget.toFixed(2), '85.00');
+    assert.deepEqual(db.ledger.slice(1), [{ type: 'ADD', amount: '6.00' }, { type: 'MINES', amount: '6.00' }]);
+
+    await billing.settle(db.transaction, 'job-1', 20);
+    assert.equal(db.billing?.reserved, '0.00');
+    assert.equal(db.billing?.charged, '15.00');
+    assert.equal(db.billing?.personasCharged, 24);
+  });
+
+  it('refunds what is still reserved once the job finishes', async () => {
+    const billing = db.service();
+    await billing.reserve(db.transaction, 'job-1');
+    await billing.settle(db.transaction, 'job-1', 6);
+
+    await billing.releaseOnTransition(db.transaction, 'job-1', 'PROCESSING', 'still running');
+    assert.equal(db.billing?.status, 'RESERVED');
+
+    await billing.releaseOnTransition(db.transaction, 'job-1', 'PARTIALLY_COMPLETED', 'done');
+    assert.equal(db.billing?.status, 'RELEASED');
+    assert.equal(db.billing?.reserved, '0.00');
+    assert.deepEqual(db.ledger, [
+      { type: 'MINES', amount: '15.00' },
+      { type: 'ADD', amount: '9.00' },
+      { type: 'MINES', amount: '9.00' },
+      { type: 'ADD', amount: '6.00' },
+    ]);
+    assert.equal(db.budget.toFixed(2), '91.00');
+  });
+
+  it('keeps the first rate and the charges when a released job is reserved again', async () => {
+    await db.service(1.5).reserve(db.transaction, 'job-1');
+    await db.service(1.5).settle(db.transaction, 'job-1', 4);
+    await db.service(1.5).releaseOnTransition(db.transaction, 'job-1', 'FAILED', 'crashed');
+    db.simulation = { selected_persona_ids: [], answered: 4 };
+
+    await db.service(2).reserve(db.transaction, 'job-1');
+
+    assert.equal(db.billing?.reserved, '9.00');
+    assert.equal(db.billing?.charged, '6.00');
+    assert.equal(db.billing?.personasCharged, 4);
+  });
+
+  it('does nothing while billing is disabled', async () => {
+    const billing = db.service(1.5, false);
+    await billing.reserve(db.transaction, 'job-1');
+    await billing.settle(db.transaction, 'job-1', 3);
+
+    assert.equal(db.billing, undefined);
+    assert.deepEqual(db.ledger, []);
+  });
+});
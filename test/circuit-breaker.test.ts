@@ -0,0 +1,61 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { CircuitBreaker } from '../src/services/circuit-breaker';
+
+const options = { failureThreshold: 3, resetTimeoutMs: 1000, maxResetTimeoutMs: 3000 };
+const at = (ms: number) => new Date(ms);
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and refuses attempts until the timeout passes', () => {
+    const breaker = new CircuitBreaker(options);
+    breaker.recordFailure(at(0));
+    breaker.recordFailure(at(0));
+    assert.equal(breaker.getState(), 'CLOSED');
+    assert.equal(breaker.allowAttempt(at(0)), true);
+
+    breaker.recordFailure(at(0));
+    assert.equal(breaker.getState(), 'OPEN');
+    assert.deepEqual(breaker.getOpenUntil(), at(1000));
+    assert.equal(breaker.allowAttempt(at(999)), false);
+
+    assert.equal(breaker.allowAttempt(at(1000)), true);
+    assert.equal(breaker.getState(), 'HALF_OPEN');
+    assert.equal(breaker.getOpenUntil(), null);
+  });
+
+  it('reopens a failed probe for twice as long, up to the maximum', () => {
+    const breaker = new CircuitBreaker(options);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(at(0));
+    }
+
+    breaker.allowAttempt(at(1000));
+    breaker.recordFailure(at(1000));
+    assert.deepEqual(breaker.getOpenUntil(), at(3000));
+
+    breaker.allowAttempt(at(3000));
+    breaker.recordFailure(at(3000));
+    assert.deepEqual(breaker.getOpenUntil(), at(6000));
+
+    breaker.allowAttempt(at(6000));
+    breaker.recordFailure(at(6000));
+    assert.deepEqual(breaker.getOpenUntil(), at(9000));
+  });
+
+  it('closes and forgets past failures on success', () => {
+    const breaker = new CircuitBreaker(options);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(at(0));
+    }
+    breaker.allowAttempt(at(1000));
+    breaker.recordSuccess();
+
+    assert.equal(breaker.getState(), 'CLOSED');
+    assert.equal(breaker.getFailures(), 0);
+
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(at(2000));
+    }
+    assert.deepEqual(breaker.getOpenUntil(), at(3000));
+  });
+});
@@ -0,0 +1,73 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { ConcurrencyLimiter } from '../src/services/concurrency-limiter';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('runs at most `limit` tasks at once and starts waiting ones in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) => limiter.run(async () => {
+      started.push(index);
+      await gate.promise;
+      return index;
+    }));
+    await flush();
+
+    assert.deepEqual(started, [0, 1]);
+    assert.equal(limiter.getActive(), 2);
+    assert.equal(limiter.getWaiting(), 1);
+
+    gates[0].resolve();
+    await flush();
+    assert.deepEqual(started, [0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    assert.deepEqual(await Promise.all(runs), [0, 1, 2]);
+    assert.equal(limiter.getActive(), 0);
+  });
+
+  it('frees the slot of a task that throws', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await assert.rejects(limiter.run(async () => {
+      throw new Error('boom');
+    }), /boom/);
+
+    assert.equal(limiter.getActive(), 0);
+    assert.equal(await limiter.run(async () => 'next'), 'next');
+  });
+
+  it('halves on decrease and grows back by one per `limit` successes', () => {
+    const limiter = new ConcurrencyLimiter(8);
+
+    assert.equal(limiter.decrease(), 4);
+    assert.equal(limiter.decrease(), 2);
+    assert.equal(limiter.decrease(), 1);
+    assert.equal(limiter.decrease(), 1);
+
+    limiter.recordSuccess();
+    assert.equal(limiter.getLimit(), 2);
+    limiter.recordSuccess();
+    assert.equal(limiter.getLimit(), 2);
+    limiter.recordSuccess();
+    assert.equal(limiter.getLimit(), 3);
+
+    for (let i = 0; i < 100; i++) {
+      limiter.recordSuccess();
+    }
+    assert.equal(limiter.getLimit(), limiter.getMax());
+  });
+});
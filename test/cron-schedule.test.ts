@@ -0,0 +1,83 @@
+import { strict as assert } from 'assert';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import { loadCronSchedules } from '../src/services/cron-schedule';
+import { ConfigError } from '../src/errors';
+
+const dir = mkdtempSync(join(tmpdir(), 'twinquest-cron-'));
+
+function configError(run: () => unknown): string {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.message;
+  }
+  assert.fail('expected a ConfigError');
+}
+
+describe('loadCronSchedules', () => {
+  const byName = (env: NodeJS.ProcessEnv) =>
+    Object.fromEntries(loadCronSchedules(env).map((schedule) => [schedule.name, schedule]));
+
+  it('uses the default schedules', () => {
+    const schedules = byName({});
+
+    assert.equal(schedules.recovery.cron, '*/15 * * * *');
+    assert.equal(schedules.cleanup.cron, '0 * * * *');
+    assert.equal(schedules['stuck-recovery'].cron, '*/20 * * * *');
+    assert.deepEqual(
+      { enabled: schedules.health.enabled, timezone: schedules.health.timezone, overlap: schedules.health.overlap },
+      { enabled: true, timezone: 'UTC', overlap: 'skip' },
+    );
+  });
+
+  it('applies the file, then per-task variables, over the defaults', () => {
+    const file = join(dir, 'cron.json');
+    writeFileSync(file, JSON.stringify({
+      timezone: 'Europe/Berlin',
+      tasks: { cleanup: { cron: '0 3 * * *', jitterSeconds: 60 }, health: { enabled: false } },
+    }));
+
+    const schedules = byName({ CRON_CONFIG_FILE: file, CRON_CLEANUP_SCHEDULE: '0 4 * * *', CRON_HEALTH_OVERLAP: 'queue' });
+
+    assert.equal(schedules.cleanup.cron, '0 4 * * *');
+    assert.equal(schedules.cleanup.jitterSeconds, 60);
+    assert.equal(schedules.cleanup.timezone, 'Europe/Berlin');
+    assert.equal(schedules.health.enabled, false);
+    assert.equal(schedules.health.overlap, 'queue');
+  });
+
+  it('still honours the legacy interval variables', () => {
+    const schedules = byName({ RECOVERY_INTERVAL_MINUTES: '10', CLEANUP_INTERVAL_HOURS: '6' });
+
+    assert.equal(schedules.recovery.cron, '*/10 * * * *');
+    assert.equal(schedules.cleanup.cron, '0 */6 * * *');
+    assert.match(configError(() => loadCronSchedules({ RECOVERY_INTERVAL_MINUTES: '7' })), /must divide 60 evenly/);
+  });
+
+  it('range-checks every field of a cron expression', () => {
+    assert.match(configError(() => loadCronSchedules({ CRON_CLEANUP_SCHEDULE: '*/61 * * * *' })), /minute "\*\/61" has a step outside 1-60/);
+    assert.match(configError(() => loadCronSchedules({ CRON_CLEANUP_SCHEDULE: '0 5-2 * * *' })), /hour "5-2" has a range that ends before it starts/);
+    assert.match(configError(() => loadCronSchedules({ CRON_CLEANUP_SCHEDULE: '0 0 32 * *' })), /invalid cron expression "0 0 32 \* \*"/);
+
+    assert.equal(byName({ CRON_CLEANUP_SCHEDULE: '0 */6 * JAN,Sep mon-fri' }).cleanup.cron, '0 */6 * JAN,Sep mon-fri');
+    assert.equal(byName({ CRON_CLEANUP_SCHEDULE: '30 */15 * * * *' }).cleanup.cron, '30 */15 * * * *');
+  });
+
+  it('reports every invalid value at once', () => {
+    const message = configError(() => loadCronSchedules({
+      CRON_HEALTH_ENABLED: 'yes',
+      CRON_HEALTH_TIMEZONE: 'Mars/Base',
+      CRON_CLEANUP_JITTER_SECONDS: '-1',
+      CRON_CLEANUP_TIMEOUT_SECONDS: '0',
+    }));
+
+    assert.match(message, /CRON_HEALTH_ENABLED must be "true" or "false", got "yes"/);
+    assert.match(message, /unknown timezone "Mars\/Base"/);
+    assert.match(message, /jitterSeconds must be an integer between 0 and 3600/);
+    assert.match(message, /timeoutSeconds must be an integer between 1 and 86400/);
+  });
+});
@@ -0,0 +1,117 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { Prisma } from '@prisma/client';
+import { FairShareScheduler, PendingJob, RunningJob, ServedJob } from '../src/services/fair-share-scheduler';
+import { DatabaseService } from '../src/services/database.service';
+import { LoggerService } from '../src/services/logger.service';
+import { SchedulerConfig } from '../src/config';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60000);
+
+const logger = { debug() {}, info() {}, warn() {}, error() {} } as unknown as LoggerService;
+
+const config: SchedulerConfig = {
+  maxRunningPerUser: 0,
+  maxRunningPerGroup: 0,
+  agingMinutes: 0,
+  fairShareWindowMinutes: 60,
+  groupWeights: {},
+};
+
+function job(jobId: string, overrides: Partial<PendingJob> = {}): PendingJob {
+  return { jobId, userId: 1, groupId: 1, priority: 0, createdAt: minutesAgo(1), personaCount: 10, ...overrides };
+}
+
+/** Answers the scheduler's queries from fixed rows, told apart by the job status they filter on. */
+function transaction(rows: { pending: PendingJob[]; running?: RunningJob[]; served?: ServedJob[] }): Prisma.TransactionClient {
+  return {
+    $executeRaw: async () => 0,
+    $queryRaw: async (strings: TemplateStringsArray) => {
+      const sql = strings.join('?');
+      if (sql.includes("qj.status = 'PENDING'")) {
+        return rows.pending;
+      }
+      if (sql.includes("qj.status = 'PROCESSING'")) {
+        return rows.running ?? [];
+      }
+      return rows.served ?? [];
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+function selectNext(
+  rows: { pending: PendingJob[]; running?: RunningJob[]; served?: ServedJob[] },
+  overrides: Partial<SchedulerConfig> = {},
+): Promise<string | null> {
+  const scheduler = new FairShareScheduler({} as DatabaseService, logger, { ...config, ...overrides });
+  return scheduler.selectNext(transaction(rows), NOW);
+}
+
+describe('FairShareScheduler.selectNext', () => {
+  it('returns null for an empty queue', async () => {
+    assert.equal(await selectNext({ pending: [] }), null);
+  });
+
+  it('picks the highest priority, then the oldest job', async () => {
+    const pending = [
+      job('old-low', { priority: 0, createdAt: minutesAgo(30) }),
+      job('new-high', { priority: 2, createdAt: minutesAgo(1) }),
+      job('old-high', { priority: 2, createdAt: minutesAgo(5) }),
+    ];
+    assert.equal(await selectNext({ pending }), 'old-high');
+  });
+
+  it('raises priority by one level per aging period waited', async () => {
+    const pending = [
+      job('waiting', { priority: 0, createdAt: minutesAgo(65) }),
+      job('urgent', { priority: 2, createdAt: minutesAgo(1) }),
+    ];
+    assert.equal(await selectNext({ pending }), 'urgent');
+    assert.equal(await selectNext({ pending }, { agingMinutes: 40 }), 'urgent');
+    assert.equal(await selectNext({ pending }, { agingMinutes: 20 }), 'waiting');
+  });
+
+  it('prefers the group served least within the window, divided by its weight', async () => {
+    const pending = [
+      job('busy-group', { groupId: 1, userId: 1, createdAt: minutesAgo(10) }),
+      job('quiet-group', { groupId: 2, userId: 2 }),
+    ];
+    const served: ServedJob[] = [
+      { userId: 1, groupId: 1, personaCount: 100, startedAt: minutesAgo(30) },
+      { userId: 2, groupId: 2, personaCount: 40, startedAt: minutesAgo(30) },
+      // Outside the window, so it no longer counts
+      { userId: 2, groupId: 2, personaCount: 500, startedAt: minutesAgo(90) },
+    ];
+
+    assert.equal(await selectNext({ pending, served }), 'quiet-group');
+    // Weight 4 makes group 1's 100 personas count as 25
+    assert.equal(await selectNext({ pending, served }, { groupWeights: { 1: 4 } }), 'busy-group');
+  });
+
+  it('prefers the user served least within an equally served group', async () => {
+    const pending = [
+      job('heavy-user', { userId: 1, createdAt: minutesAgo(10) }),
+      job('light-user', { userId: 2 }),
+    ];
+    const served: ServedJob[] = [{ userId: 1, groupId: 1, personaCount: 50, startedAt: minutesAgo(5) }];
+
+    assert.equal(await selectNext({ pending, served }), 'light-user');
+  });
+
+  it('skips jobs whose user or group is at its concurrency cap', async () => {
+    const pending = [
+      job('capped-user', { userId: 1, groupId: 1, priority: 5 }),
+      job('capped-group', { userId: 2, groupId: 2, priority: 3 }),
+      job('free', { userId: 3, groupId: 3 }),
+    ];
+    const running: RunningJob[] = [
+      { userId: 1, groupId: 1, remainingPersonas: 5 },
+      { userId: 4, groupId: 2, remainingPersonas: 5 },
+    ];
+
+    assert.equal(await selectNext({ pending, running }, { maxRunningPerUser: 1, maxRunningPerGroup: 1 }), 'free');
+    assert.equal(await selectNext({ pending: pending.slice(0, 2), running }, { maxRunningPerUser: 1, maxRunningPerGroup: 1 }), null);
+    assert.equal(await selectNext({ pending, running }), 'capped-user');
+  });
+});
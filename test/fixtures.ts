@@ -0,0 +1,42 @@
+import { Option, QuestionType } from '@prisma/client';
+import { QuestionWithOptions } from '../src/generators';
+
+/** An active, required question with no options, scale or sub-questions unless overridden. */
+export function question(id: number, type: QuestionType, overrides: Partial<QuestionWithOptions> = {}): QuestionWithOptions {
+  return {
+    id,
+    title: `Question ${id}`,
+    order: id,
+    required: true,
+    surveyId: 1,
+    groupId: 1,
+    userId: 1,
+    status: 'ACTIVE',
+    question_type: type,
+    max_value: null,
+    min_value: null,
+    max_description: null,
+    min_description: null,
+    scale_labels: [],
+    sub_questions: [],
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    Option: [],
+    ...overrides,
+  };
+}
+
+/** Options of `questionId` in the given order, with ids `questionId * 10 + index`. */
+export function options(questionId: number, ...titles: string[]): Option[] {
+  return titles.map((title, index) => ({
+    id: questionId * 10 + index,
+    title,
+    order: index,
+    questionId,
+    groupId: 1,
+    userId: 1,
+    surveyId: 1,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  }));
+}
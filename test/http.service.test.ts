@@ -0,0 +1,52 @@
+import { strict as assert } from 'assert';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { after, before, describe, it } from 'node:test';
+import { HttpService } from '../src/services/http.service';
+import { RecoveryService } from '../src/services/recovery.service';
+import { DatabaseService } from '../src/services/database.service';
+import { CronService } from '../src/services/cron.service';
+import { MetricsService } from '../src/services/metrics.service';
+import { LoggerService } from '../src/services/logger.service';
+
+const logger = { debug() {}, info() {}, warn() {}, error() {} } as unknown as LoggerService;
+
+describe('HttpService', () => {
+  let http: HttpService;
+  let baseUrl: string;
+
+  before(async () => {
+    const recovery = {
+      getSimulationProgress: async (simulationId: string) => ({ simulationId }),
+    } as unknown as RecoveryService;
+    http = new HttpService(
+      {} as DatabaseService,
+      recovery,
+      {} as CronService,
+      logger,
+      {} as MetricsService,
+      { port: 0, host: '127.0.0.1' },
+    );
+    await http.start();
+    const { port } = (http as unknown as { server: Server }).server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  after(async () => {
+    await http.stop();
+  });
+
+  it('answers 400 to a path segment that is not valid percent-encoding', async () => {
+    const response = await fetch(`${baseUrl}/simulations/%E0`);
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'Malformed path /simulations/%E0' });
+  });
+
+  it('decodes path segments before handing them to the route', async () => {
+    const response = await fetch(`${baseUrl}/simulations/sim%201`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { simulationId: 'sim 1' });
+  });
+});
@@ -0,0 +1,44 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { QuestionType } from '@prisma/client';
+import { DEFAULT_TEMPLATE, QuestionWithOptions, renderQuestionPrompt, renderSystemPrompt } from '../src/generators';
+import { question } from './fixtures';
+
+function speedQuestion(type: QuestionType, overrides: Partial<QuestionWithOptions> = {}): QuestionWithOptions {
+  return question(12, type, { title: 'How fast is it?', min_value: 1, max_value: 5, max_description: 'Very fast', ...overrides });
+}
+
+describe('prompt templates', () => {
+  it('leaves out a line whose only variable is empty', () => {
+    const prompt = renderSystemPrompt(DEFAULT_TEMPLATE, { id: 1, name: 'Ada', description: '' });
+    assert.equal(prompt, 'You are answering a survey as the persona "Ada".\nStay in character and answer every question.');
+  });
+
+  it('keeps the question id header when the title is empty', () => {
+    const prompt = renderQuestionPrompt(DEFAULT_TEMPLATE, { id: 1, name: 'Ada', description: null }, speedQuestion('TEXT_ENTRY', { title: '' }));
+    assert.equal(prompt, 'Question 12 (TEXT_ENTRY): \nAnswer in your own words.');
+  });
+
+  it('renders an empty variable as nothing on a line with other values', () => {
+    const prompt = renderQuestionPrompt(DEFAULT_TEMPLATE, { id: 1, name: 'Ada', description: null }, speedQuestion('SLIDER'));
+    assert.deepEqual(prompt.split('\n'), [
+      'Question 12 (SLIDER): How fast is it?',
+      'Pick a number from 1 to 5.',
+      '1 means: ',
+      '5 means: Very fast',
+    ]);
+  });
+
+  it('lists a MATRIX question without sub-questions as a single row', () => {
+    const prompt = renderQuestionPrompt(
+      DEFAULT_TEMPLATE,
+      { id: 1, name: 'Ada', description: null },
+      speedQuestion('MATRIX', { scale_labels: ['Low', 'High'] }),
+    );
+    assert.deepEqual(prompt.split('\n'), [
+      'Question 12 (MATRIX): How fast is it?',
+      'Rate each statement with one of: Low, High',
+      '- How fast is it?',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { strict as assert } from 'assert';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RateLimiter, sharedRateLimiter } from '../src/generators/rate-limiter';
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+/** Resolves to whether `promise` has settled by now. */
+async function settled(promise: Promise<unknown>): Promise<boolean> {
+  let done = false;
+  promise.then(() => {
+    done = true;
+  }, () => {
+    done = true;
+  });
+  await flush();
+  return done;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('holds requests beyond requestsPerMinute until the oldest leaves the window', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2, tokensPerMinute: 0 });
+
+    assert.equal(await settled(limiter.acquire(1)), true);
+    mock.timers.tick(10000);
+    assert.equal(await settled(limiter.acquire(1)), true);
+
+    const third = limiter.acquire(1);
+    assert.equal(await settled(third), false);
+
+    mock.timers.tick(49999);
+    assert.equal(await settled(third), false);
+    mock.timers.tick(1);
+    assert.equal(await settled(third), true);
+    assert.equal((await third).at, 60000);
+  });
+
+  it('waits for enough tokens and counts settled usage instead of the estimate', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 1000 });
+
+    const first = await limiter.acquire(900);
+    limiter.settle(first, 400);
+
+    // 400 used, so 500 more fit; another 200 would not
+    assert.equal(await settled(limiter.acquire(500)), true);
+    const blocked = limiter.acquire(200);
+    assert.equal(await settled(blocked), false);
+
+    mock.timers.tick(60000);
+    assert.equal(await settled(blocked), true);
+  });
+
+  it('lets a request larger than the token limit through once the window is empty', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 100 });
+
+    assert.equal(await settled(limiter.acquire(5000)), true);
+    const next = limiter.acquire(5000);
+    assert.equal(await settled(next), false);
+
+    mock.timers.tick(60000);
+    assert.equal(await settled(next), true);
+  });
+
+  it('holds every caller back while paused and serves them in order', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    limiter.pause(5000);
+
+    const order: number[] = [];
+    const first = limiter.acquire(1).then(() => order.push(1));
+    const second = limiter.acquire(1).then(() => order.push(2));
+    assert.equal(await settled(first), false);
+
+    mock.timers.tick(5000);
+    await flush();
+    await Promise.all([first, second]);
+    assert.deepEqual(order, [1, 2]);
+  });
+
+  it('shares one limiter per key', () => {
+    const limits = { requestsPerMinute: 1, tokensPerMinute: 0 };
+    assert.equal(sharedRateLimiter('test:model', limits), sharedRateLimiter('test:model', limits));
+    assert.notEqual(sharedRateLimiter('test:model', limits), sharedRateLimiter('test:other', limits));
+  });
+});
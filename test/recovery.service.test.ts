@@ -0,0 +1,86 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { RecoveryService } from '../src/services/recovery.service';
+import { DatabaseService } from '../src/services/database.service';
+import { LoggerService } from '../src/services/logger.service';
+import { RecoveryConfig } from '../src/config';
+
+const logger = { debug() {}, info() {}, warn() {}, error() {} } as unknown as LoggerService;
+
+const config: RecoveryConfig = {
+  workerId: 'worker-1',
+  batchSize: 10,
+  personaMaxAttempts: 3,
+  personaConcurrency: 10,
+  maxPersonaFailureRate: 0.05,
+  jobLeaseSeconds: 120,
+  heartbeatIntervalSeconds: 30,
+  staleSimulationMinutes: 10,
+  maxRecoveryAttempts: 5,
+  backoffBaseMinutes: 5,
+  backoffMaxMinutes: 240,
+  dryRun: false,
+};
+
+/** The private completion check, reached through the service under test. */
+interface CompletionCheck {
+  assessCompletion(simulationId: string, totalPersonas: number, questionCount: number): Promise<{
+    status: 'COMPLETED' | 'PARTIAL';
+    failedPersonas: number;
+    message: string | null;
+  }>;
+}
+
+/**
+ * A simulation of 20 personas with 3 questions each, where `answered`
+ * personas saved responses and `failed` gave up.
+ */
+function completionCheck(answered: number, failed: number) {
+  const counters: Record<string, unknown>[] = [];
+  const database = {
+    executeWithRetry: <T>(operation: (prisma: unknown) => Promise<T>) => operation({
+      $queryRaw: async () => [{ answered, failed }],
+      simulations: {
+        update: async ({ data }: { data: Record<string, unknown> }) => {
+          counters.push(data);
+        },
+      },
+    }),
+  } as unknown as DatabaseService;
+
+  const service = new RecoveryService(
+    database,
+    logger,
+    null as never,
+    null as never,
+    null as never,
+    null as never,
+    null as never,
+    config,
+  ) as unknown as CompletionCheck;
+
+  return { run: () => service.assessCompletion('sim-1', 20, 3), counters };
+}
+
+describe('RecoveryService completion', () => {
+  it('completes when no persona failed', async () => {
+    const check = completionCheck(20, 0);
+
+    assert.deepEqual(await check.run(), { status: 'COMPLETED', failedPersonas: 0, message: null });
+    assert.deepEqual(check.counters, [{ successful_requests: 60, failed_requests: 0 }]);
+  });
+
+  it('completes partially while failures stay within maxPersonaFailureRate', async () => {
+    const check = completionCheck(19, 1);
+
+    assert.deepEqual(await check.run(), { status: 'PARTIAL', failedPersonas: 1, message: '1 of 20 personas failed' });
+    assert.deepEqual(check.counters, [{ successful_requests: 57, failed_requests: 3 }]);
+  });
+
+  it('throws once failures exceed maxPersonaFailureRate, after recording the counters', async () => {
+    const check = completionCheck(18, 2);
+
+    await assert.rejects(check.run(), /2 of 20 personas failed, above the allowed 5\.0%/);
+    assert.deepEqual(check.counters, [{ successful_requests: 54, failed_requests: 6 }]);
+  });
+});
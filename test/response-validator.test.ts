@@ -0,0 +1,97 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { GeneratedResponse, MockResponseGenerator, SeededRandomResponseGenerator, validateResponses } from '../src/generators';
+import { options, question } from './fixtures';
+
+const row = (questionId: number, answer: string, extra: Partial<GeneratedResponse> = {}): GeneratedResponse => ({
+  questionId,
+  optionId: null,
+  answer,
+  ...extra,
+});
+
+const persona = { id: 7, name: 'Ada', description: 'Engineer' };
+
+describe('validateResponses', () => {
+  const single = question(1, 'SINGLE_CHOICE', { Option: options(1, 'Yes', 'No') });
+  const multiple = question(2, 'MULTIPLE_CHOICE', { Option: options(2, 'Red', 'Blue') });
+  const slider = question(3, 'SLIDER', { min_value: 1, max_value: 5 });
+  const text = question(4, 'TEXT_ENTRY');
+
+  it('accepts one well-formed answer per question', () => {
+    const issues = validateResponses([single, multiple, slider, text], [
+      row(1, 'Yes', { optionId: 10 }),
+      row(2, 'Red', { optionId: 20 }),
+      row(2, 'Blue', { optionId: 21 }),
+      row(3, '4'),
+      row(4, 'Fine'),
+    ]);
+    assert.deepEqual(issues, []);
+  });
+
+  it('reports missing answers, foreign options and unknown questions', () => {
+    const issues = validateResponses([single, text], [row(1, 'No', { optionId: 99 }), row(9, 'x')]);
+    assert.deepEqual(issues, [
+      'Response references unknown question 9',
+      'Question 1 (SINGLE_CHOICE) answered with option 99 that does not belong to it',
+      'Question 4 (TEXT_ENTRY) has no answer',
+    ]);
+  });
+
+  it('rejects duplicate choices and slider values out of range', () => {
+    const issues = validateResponses([multiple, slider], [
+      row(2, 'Red', { optionId: 20 }),
+      row(2, 'Red', { optionId: 20 }),
+      row(3, '6'),
+    ]);
+    assert.deepEqual(issues, [
+      'Question 2 (MULTIPLE_CHOICE) selects the same option more than once',
+      'Question 3 (SLIDER) answer 6 is outside 1-5',
+    ]);
+  });
+
+  it('expects one answer on the scale for every MATRIX sub-question', () => {
+    const matrix = question(5, 'MATRIX', { scale_labels: ['Low', 'High'], sub_questions: ['Speed', 'Price'] });
+
+    assert.deepEqual(validateResponses([matrix], [
+      row(5, 'Low', { subQuestion: 'Speed' }),
+      row(5, 'High', { subQuestion: 'Price' }),
+    ]), []);
+
+    assert.deepEqual(validateResponses([matrix], [
+      row(5, 'Meh', { subQuestion: 'Speed' }),
+      row(5, 'Low', { subQuestion: 'Size' }),
+    ]), [
+      'Question 5 (MATRIX) expects one answer for sub-question "Price", got 0',
+      'Question 5 (MATRIX) answered "Meh" which is not on its scale',
+      'Question 5 (MATRIX) answered unknown sub-question "Size"',
+    ]);
+  });
+
+  it('treats a MATRIX question without sub-questions as a single row named after it', () => {
+    const matrix = question(6, 'MATRIX', { scale_labels: ['Low', 'High'] });
+
+    assert.deepEqual(validateResponses([matrix], [row(6, 'High', { subQuestion: 'Question 6' })]), []);
+    assert.deepEqual(validateResponses([matrix], [row(6, 'High')]), [
+      'Question 6 (MATRIX) expects one answer for sub-question "Question 6", got 0',
+      'Question 6 (MATRIX) answered unknown sub-question ""',
+    ]);
+  });
+
+  it('accepts what the mock and seeded generators produce', async () => {
+    const questions = [
+      single,
+      multiple,
+      slider,
+      text,
+      question(5, 'MATRIX', { scale_labels: ['Low', 'High'], sub_questions: ['Speed', 'Price'] }),
+      question(6, 'MATRIX', { scale_labels: ['Low', 'High'] }),
+      question(7, 'MATRIX', { Option: options(7, 'Bad', 'Good') }),
+    ];
+
+    for (const generator of [new MockResponseGenerator(), new SeededRandomResponseGenerator(42)]) {
+      const responses = await generator.generate(persona, questions);
+      assert.deepEqual(validateResponses(questions, responses), [], generator.name);
+    }
+  });
+});
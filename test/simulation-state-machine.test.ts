@@ -0,0 +1,185 @@
+import { strict as assert } from 'assert';
+import { beforeEach, describe, it } from 'node:test';
+import { SimulationStatus } from '@prisma/client';
+import { JobStatus, SimulationStateMachine } from '../src/services/simulation-state-machine';
+import { BillingService } from '../src/services/billing.service';
+import { FairShareScheduler } from '../src/services/fair-share-scheduler';
+import { DatabaseService } from '../src/services/database.service';
+import { LoggerService } from '../src/services/logger.service';
+import { InsufficientBudgetError, InvalidTransitionError } from '../src/errors';
+
+const logger = { debug() {}, info() {}, warn() {}, error() {} } as unknown as LoggerService;
+
+interface Transition {
+  entity_type: string;
+  job_id: string | null;
+  from_status: string;
+  to_status: string;
+}
+
+/**
+ * Jobs `job-1` (simulation `sim-1`) and `job-2` (simulation `sim-2`), both
+ * PENDING, with just enough of the database behind them for the state
+ * machine's queries.
+ */
+class FakeDatabase {
+  jobs = new Map<string, { status: JobStatus; error_message?: string }>([
+    ['job-1', { status: 'PENDING' }],
+    ['job-2', { status: 'PENDING' }],
+  ]);
+  simulations = new Map<string, { id: number; status: SimulationStatus; jobId: string; recovery_status?: string }>([
+    ['sim-1', { id: 1, status: 'PENDING', jobId: 'job-1' }],
+    ['sim-2', { id: 2, status: 'PENDING', jobId: 'job-2' }],
+  ]);
+  transitions: Transition[] = [];
+
+  tx = {
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = strings.join('?');
+      const [key] = values as string[];
+      if (sql.includes('UPDATE simulation_queue_jobs')) {
+        const jobId = values[values.length - 1] as string;
+        const job = this.jobs.get(jobId)!;
+        if (job.status !== 'PENDING') {
+          return [];
+        }
+        job.status = 'PROCESSING';
+        return [{ job_id: jobId, status: job.status }];
+      }
+      if (sql.includes('FROM simulation_queue_jobs')) {
+        const job = this.jobs.get(key);
+        return job ? [{ job_id: key, status: job.status, worker_id: null }] : [];
+      }
+      if (sql.includes('WHERE queue_job_id')) {
+        const [simulationId] = [...this.simulations].find(([, simulation]) => simulation.jobId === key) ?? [];
+        return simulationId ? [{ simulationId }] : [];
+      }
+      if (sql.includes('FROM simulations')) {
+        const simulation = this.simulations.get(key);
+        return simulation
+          ? [{ id: simulation.id, simulationId: key, surveyId: 9, status: simulation.status, queue_job_id: simulation.jobId }]
+          : [];
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+    $executeRaw: async () => 1,
+    simulations: {
+      update: async ({ where, data }: { where: { id: number }; data: { status: SimulationStatus; recovery_status?: string } }) => {
+        const simulation = [...this.simulations.values()].find((candidate) => candidate.id === where.id)!;
+        simulation.status = data.status;
+        simulation.recovery_status = data.recovery_status;
+      },
+    },
+    surveys: { update: async () => ({}) },
+    simulation_queue_jobs: {
+      update: async ({ where, data }: { where: { job_id: string }; data: { status: JobStatus; error_message?: string } }) => {
+        Object.assign(this.jobs.get(where.job_id)!, data);
+      },
+    },
+    simulation_state_transitions: {
+      create: async ({ data }: { data: Transition }) => {
+        this.transitions.push(data);
+      },
+      createMany: async ({ data }: { data: Transition[] }) => {
+        this.transitions.push(...data);
+      },
+    },
+  };
+
+  stateMachine(queue: string[], refused: string[] = []): SimulationStateMachine {
+    const database = {
+      executeWithRetry: <T>(operation: (prisma: unknown) => Promise<T>) => operation({
+        $transaction: <R>(run: (tx: unknown) => Promise<R>) => run(this.tx),
+      }),
+    } as unknown as DatabaseService;
+    const scheduler = {
+      selectNext: async () => queue.shift() ?? null,
+    } as unknown as FairShareScheduler;
+    const billing = {
+      reserve: async (_tx: unknown, jobId: string) => {
+        if (refused.includes(jobId)) {
+          throw new InsufficientBudgetError(`Insufficient budget for job ${jobId}`);
+        }
+      },
+      releaseOnTransition: async () => {},
+    } as unknown as BillingService;
+    return new SimulationStateMachine(database, logger, scheduler, billing);
+  }
+}
+
+describe('SimulationStateMachine transitions', () => {
+  it('allows the listed simulation moves and staying put', () => {
+    assert.ok(SimulationStateMachine.canTransitionSimulation('PENDING', 'RUNNING'));
+    assert.ok(SimulationStateMachine.canTransitionSimulation('RUNNING', 'PENDING'));
+    assert.ok(SimulationStateMachine.canTransitionSimulation('FAILED', 'PENDING'));
+    assert.ok(SimulationStateMachine.canTransitionSimulation('COMPLETED', 'COMPLETED'));
+  });
+
+  it('rejects moves out of COMPLETED and skipping RUNNING', () => {
+    assert.ok(!SimulationStateMachine.canTransitionSimulation('COMPLETED', 'PENDING'));
+    assert.ok(!SimulationStateMachine.canTransitionSimulation('COMPLETED', 'RUNNING'));
+    assert.ok(!SimulationStateMachine.canTransitionSimulation('PENDING', 'COMPLETED'));
+    assert.ok(!SimulationStateMachine.canTransitionSimulation('FAILED', 'RUNNING'));
+  });
+
+  it('lets a FAILED job be taken over, retried or finished', () => {
+    for (const to of ['PROCESSING', 'PENDING', 'COMPLETED', 'PARTIALLY_COMPLETED', 'DEAD_LETTER', 'CANCELLED'] as JobStatus[]) {
+      assert.ok(SimulationStateMachine.canTransitionJob('FAILED', to), `FAILED -> ${to}`);
+    }
+  });
+
+  it('rejects job moves out of a final status and back to PROCESSING from a parked one', () => {
+    assert.ok(!SimulationStateMachine.canTransitionJob('COMPLETED', 'PENDING'));
+    assert.ok(!SimulationStateMachine.canTransitionJob('PARTIALLY_COMPLETED', 'FAILED'));
+    assert.ok(!SimulationStateMachine.canTransitionJob('DEAD_LETTER', 'PROCESSING'));
+    assert.ok(!SimulationStateMachine.canTransitionJob('CANCELLED', 'PROCESSING'));
+    assert.ok(!SimulationStateMachine.canTransitionJob('PENDING', 'COMPLETED'));
+  });
+
+  it('refuses an invalid simulation transition and writes nothing', async () => {
+    const db = new FakeDatabase();
+    db.simulations.get('sim-1')!.status = 'COMPLETED';
+
+    await assert.rejects(
+      db.stateMachine([]).transition({ simulationId: 'sim-1', to: 'RUNNING', reason: 'test', actor: 'test' }),
+      InvalidTransitionError,
+    );
+    assert.equal(db.simulations.get('sim-1')!.status, 'COMPLETED');
+    assert.deepEqual(db.transitions, []);
+  });
+});
+
+describe('SimulationStateMachine.claimNextJob', () => {
+  let db: FakeDatabase;
+
+  beforeEach(() => {
+    db = new FakeDatabase();
+  });
+
+  it('claims the job the scheduler picks', async () => {
+    const job = await db.stateMachine(['job-1']).claimNextJob<{ job_id: string }>('worker-1', 60);
+
+    assert.equal(job?.job_id, 'job-1');
+    assert.equal(db.jobs.get('job-1')!.status, 'PROCESSING');
+    assert.deepEqual(db.transitions.map(({ job_id, from_status, to_status }) => [job_id, from_status, to_status]), [
+      ['job-1', 'PENDING', 'PROCESSING'],
+    ]);
+  });
+
+  it('dead-letters a job the budget cannot cover and claims the next one', async () => {
+    const job = await db.stateMachine(['job-1', 'job-2'], ['job-1']).claimNextJob<{ job_id: string }>('worker-1', 60);
+
+    assert.equal(job?.job_id, 'job-2');
+    assert.equal(db.jobs.get('job-1')!.status, 'DEAD_LETTER');
+    assert.equal(db.jobs.get('job-1')!.error_message, 'Insufficient budget for job job-1');
+    assert.deepEqual(db.simulations.get('sim-1'), { id: 1, status: 'FAILED', jobId: 'job-1', recovery_status: 'DEAD_LETTER' });
+    assert.equal(db.jobs.get('job-2')!.status, 'PROCESSING');
+  });
+
+  it('returns null when every job is refused', async () => {
+    const job = await db.stateMachine(['job-1'], ['job-1']).claimNextJob('worker-1', 60);
+
+    assert.equal(job, null);
+    assert.equal(db.jobs.get('job-1')!.status, 'DEAD_LETTER');
+  });
+});
@@ -0,0 +1,36 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { AppConfig } from '../src/config';
+import { planWorkerCapacity } from '../src/services/worker-capacity';
+
+function config(connectionLimit: number, jobs: number, personas: number): AppConfig {
+  return {
+    database: { connectionLimit },
+    queueWorker: { concurrency: jobs },
+    recovery: { personaConcurrency: personas },
+  } as AppConfig;
+}
+
+describe('planWorkerCapacity', () => {
+  it('keeps settings that fit the pool', () => {
+    assert.deepEqual(planWorkerCapacity(config(11, 2, 5)), { jobs: 2, saves: 5, connectionLimit: 11, warnings: [] });
+  });
+
+  it('gives saves the connections jobs leave free, up to the persona concurrency', () => {
+    assert.equal(planWorkerCapacity(config(11, 2, 50)).saves, 8);
+  });
+
+  it('lowers jobs so each keeps a save slot', () => {
+    const capacity = planWorkerCapacity(config(5, 4, 10));
+
+    assert.equal(capacity.jobs, 2);
+    assert.equal(capacity.saves, 2);
+    assert.deepEqual(capacity.warnings, ['QUEUE_WORKER_CONCURRENCY lowered from 4 to 2 to fit connection_limit=5']);
+  });
+
+  it('still runs one job with one save on the smallest pool', () => {
+    const capacity = planWorkerCapacity(config(1, 3, 10));
+    assert.equal(capacity.jobs, 1);
+    assert.equal(capacity.saves, 1);
+  });
+});